@@ -0,0 +1,58 @@
+import { readFile } from "fs/promises";
+import { basename } from "path";
+import { Level } from "@/types/game";
+import { AnalysisProgress } from "@/utils/analysis";
+import { connectInlineAnalysis, createAnalysisService } from "@/utils/analysisService";
+import { parseLevelFile } from "@/utils/levelFormat";
+import { getPieceName } from "@/utils/pieceCatalog";
+
+/**
+ * Solve a level from the command line
+ *
+ *   pnpm analyze <level.json | level.txt | campaign:N | daily:YYYY-MM-DD> [--time-limit ms]
+ *
+ * Runs the same analysis service as the game, in-process, and prints the
+ * best arrangement it finds.
+ */
+
+const USAGE = 'Usage: pnpm analyze <level.json | level.txt | campaign:N | daily:YYYY-MM-DD> [--time-limit ms]';
+
+async function main(args: string[]) {
+  const [source, flag, value] = args;
+  if (!source || (flag !== undefined && (flag !== '--time-limit' || !/^\d+$/.test(value ?? '')))) {
+    throw new Error(USAGE);
+  }
+  const timeLimitMs = flag ? Number(value) : undefined;
+
+  const service = createAnalysisService(connectInlineAnalysis);
+  try {
+    const campaign = source.match(/^campaign:([1-9]\d*)$/);
+    const daily = source.match(/^daily:(\d{4}-\d{2}-\d{2})$/);
+    const level: Level = campaign
+      ? await service.run({ kind: 'campaign-level', levelIndex: Number(campaign[1]) - 1 }).result
+      : daily
+        ? await service.run({ kind: 'daily-level', dateKey: daily[1] }).result
+        : parseLevelFile(basename(source), await readFile(source, 'utf8'));
+
+    let reported = false;
+    const onProgress = (progress: AnalysisProgress) => {
+      process.stderr.write(`\rSearching: ${progress.nodes} nodes, best ${progress.bestScore}`);
+      reported = true;
+    };
+    const result = await service.run({ kind: 'solve', level, options: { timeLimitMs } }, onProgress).result;
+    if (reported) process.stderr.write('\n');
+
+    console.log(`${level.name}: ${result.score} cells covered${result.optimal ? ' (optimal)' : ''}, ${result.nodes} nodes in ${result.elapsedMs} ms`);
+    if (!result.feasible) console.log('No arrangement keeps the door open and every sofa reachable.');
+    result.placements.forEach(sofa => {
+      console.log(`  ${getPieceName(sofa.type, sofa.flipped)} at (${sofa.position.x}, ${sofa.position.y}), ${sofa.rotation}°`);
+    });
+  } finally {
+    service.dispose();
+  }
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -5,7 +5,7 @@ const Header = () => {
 
   return (
     <div className="w-full">
-      <div className="flex justify-start items-left pt-8 pb-8">
+      <div className="flex justify-between items-center pt-8 pb-8">
         <div 
           className="cursor-pointer text-2xl font-bold text-primary" 
           style={{ color: "#0057AD" }}
@@ -13,6 +13,22 @@ const Header = () => {
         >
           Friheten - Ikea Sofa Game
         </div>
+        <div className="flex gap-6">
+          <div
+            className="cursor-pointer font-medium"
+            style={{ color: "#0057AD" }}
+            onClick={() => router.push("/daily")}
+          >
+            Daily Challenge
+          </div>
+          <div
+            className="cursor-pointer font-medium"
+            style={{ color: "#0057AD" }}
+            onClick={() => router.push("/editor")}
+          >
+            Level Editor
+          </div>
+        </div>
       </div>
     </div>
   );
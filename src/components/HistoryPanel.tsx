@@ -0,0 +1,66 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { GameHistory } from '@/utils/gameHistory';
+
+// Scrubbable timeline of every move since the level started
+const HistoryPanel: React.FC<{
+  history: GameHistory,
+  canUndo: boolean,
+  canRedo: boolean,
+  onUndo: () => void,
+  onRedo: () => void,
+  onJump: (index: number) => void
+}> = ({ history, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+  const { entries, index } = history;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">History</CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              Undo
+            </Button>
+            <Button size="sm" variant="outline" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.length > 1 && (
+          <Slider
+            value={[index]}
+            min={0}
+            max={entries.length - 1}
+            step={1}
+            onValueChange={(value) => onJump(value[0])}
+          />
+        )}
+        <ScrollArea className="h-32">
+          <ol className="text-sm space-y-1">
+            {entries.map((entry, entryIndex) => (
+              <li
+                key={entryIndex}
+                className={`cursor-pointer rounded px-2 py-1 ${
+                  entryIndex === index
+                    ? 'bg-primary/10 font-medium'
+                    : entryIndex > index ? 'text-muted-foreground line-through' : 'hover:bg-muted'
+                }`}
+                onClick={() => onJump(entryIndex)}
+              >
+                {entryIndex}. {entry.label}
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { SofaSelectionButton } from '@/components/SofaVisuals';
+import { Rotation, SofaInventory, SofaType } from '@/types/game';
+import { getInventoryCount, getInventoryPieces } from '@/utils/pieceCatalog';
+
+// Pieces the room offers, with what is left of each; shown in the sidebar or the mobile drawer
+const InventoryPanel: React.FC<{
+  levelInventory: SofaInventory,
+  inventory: SofaInventory,
+  selectedSofaType: SofaType,
+  selectedRotation: Rotation,
+  selectedFlipped: boolean,
+  isRemoving: boolean,
+  onSelect: (type: SofaType) => void,
+  onRotate: () => void,
+  onPickUp?: (type: SofaType) => void
+}> = ({
+  levelInventory,
+  inventory,
+  selectedSofaType,
+  selectedRotation,
+  selectedFlipped,
+  isRemoving,
+  onSelect,
+  onRotate,
+  onPickUp
+}) => (
+  <div className="grid grid-cols-3 gap-3">
+    {getInventoryPieces(levelInventory).map(({ id: type, chiral }) => {
+      const isSelected = selectedSofaType === type;
+      const flipped = isSelected && selectedFlipped;
+      const count = getInventoryCount(inventory, type, flipped);
+
+      return (
+        <div
+          key={type}
+          onPointerDown={onPickUp ? () => onPickUp(type) : undefined}
+          className={`flex flex-col items-center p-2 rounded-md border-2 select-none ${
+            isSelected && !isRemoving
+              ? 'border-primary bg-primary/10'
+              : 'border-muted'
+          }`}
+        >
+          <SofaSelectionButton
+            type={type}
+            rotation={isSelected ? selectedRotation : 0}
+            flipped={flipped}
+            selected={isSelected && !isRemoving}
+            onRotate={isSelected ? onRotate : undefined}
+            onClick={() => onSelect(type)}
+          />
+          <div className="mt-2 text-center">
+            <Badge
+              variant={count > 0 ? "default" : "outline"}
+              className="w-full"
+            >
+              {count} left
+            </Badge>
+            {/* The other handedness has its own count */}
+            {chiral && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {getInventoryCount(inventory, type, !flipped)} {flipped ? 'standard' : 'flipped'}
+              </div>
+            )}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default InventoryPanel;
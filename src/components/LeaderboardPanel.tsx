@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SofaPiece } from '@/types/game';
+import { LeaderboardEntry, MAX_PLAYER_NAME_LENGTH, fetchScores, submitScore } from '@/utils/leaderboard';
+
+const TOP_ENTRIES_SHOWN = 5;
+
+// Top scores of a level and a form to send the finished room to the server
+const LeaderboardPanel: React.FC<{
+  levelId: string,
+  sofas: SofaPiece[]
+}> = ({ levelId, sofas }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [player, setPlayer] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+
+  useEffect(() => {
+    fetchScores(levelId).then(setEntries, () => setStatus("Couldn't load the leaderboard."));
+  }, [levelId]);
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      const { rank } = await submitScore({
+        level: levelId,
+        player,
+        placements: sofas.map(({ type, position, rotation, flipped }) => ({ type, position, rotation, flipped }))
+      });
+      setStatus(`You're number ${rank} on this room's leaderboard.`);
+      setHasSubmitted(true);
+      setEntries(await fetchScores(levelId));
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div>
+        <div className="font-medium">Leaderboard</div>
+        <div className="text-xs text-muted-foreground">Ranked by cells covered; bonuses don&apos;t count here.</div>
+      </div>
+      {entries && entries.length === 0 && (
+        <div className="text-sm text-muted-foreground">No scores yet. Be the first!</div>
+      )}
+      {entries && entries.length > 0 && (
+        <ol className="text-sm">
+          {entries.slice(0, TOP_ENTRIES_SHOWN).map((entry, index) => (
+            <li key={entry.player} className="flex justify-between">
+              <span>{index + 1}. {entry.player}</span>
+              <span>{entry.score} {'★'.repeat(entry.stars)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {!hasSubmitted && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Your name"
+            maxLength={MAX_PLAYER_NAME_LENGTH}
+            value={player}
+            onChange={(e) => setPlayer(e.target.value)}
+          />
+          <Button variant="outline" onClick={submit} disabled={isSubmitting || player.trim() === ''}>
+            {isSubmitting ? "Submitting..." : "Submit"}
+          </Button>
+        </div>
+      )}
+      {status && <div className="text-sm text-muted-foreground">{status}</div>}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -0,0 +1,66 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { Level } from '@/types/game';
+import { downloadTextFile } from '@/utils/download';
+import { levelFileName, levelToAscii, levelToJson, parseLevelFile } from '@/utils/levelFormat';
+
+// Import and export buttons for the level file format (.json and .txt)
+const LevelFileControls: React.FC<{
+  level: Level,
+  onImport: (level: Level) => void
+}> = ({ level, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const imported = parseLevelFile(file.name, await file.text());
+      onImport(imported);
+      toast({ title: 'Level imported', description: imported.name });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: `Could not import ${file.name}`,
+        description: (error as Error).message
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <span>Level File:</span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => downloadTextFile(levelFileName(level, 'json'), levelToJson(level), 'application/json')}
+        >
+          JSON
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => downloadTextFile(levelFileName(level, 'txt'), levelToAscii(level), 'text/plain')}
+        >
+          ASCII
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.txt"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LevelFileControls;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { CampaignProgress } from '@/utils/saveGame';
+import { formatStars } from '@/utils/scoring';
+
+// Grid of unlocked campaign levels with the best score and stars of each
+const LevelSelectDialog: React.FC<{
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+  campaign: CampaignProgress,
+  currentLevel: number | null,
+  onSelect: (levelIndex: number) => void
+}> = ({ open, onOpenChange, campaign, currentLevel, onSelect }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Level Select</DialogTitle>
+        <DialogDescription>
+          Finish a level to unlock the next one. Replaying a level keeps your best result.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="grid grid-cols-3 gap-2 max-h-80 overflow-y-auto p-1">
+        {Array.from({ length: campaign.unlockedLevels }, (_, index) => {
+          const record = campaign.levels[index];
+          return (
+            <Button
+              key={index}
+              variant={index === currentLevel ? "default" : "outline"}
+              className="h-auto flex-col py-2"
+              onClick={() => onSelect(index)}
+            >
+              <span>Level {index + 1}</span>
+              <span className="text-xs" aria-label={record ? formatStars(record.stars) : 'Not finished'}>
+                {record ? '★'.repeat(record.stars) + '☆'.repeat(3 - record.stars) : '☆☆☆'}
+              </span>
+              <span className="text-xs font-normal">{record ? `Best ${record.bestScore}` : 'Not finished'}</span>
+            </Button>
+          );
+        })}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default LevelSelectDialog;
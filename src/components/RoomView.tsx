@@ -0,0 +1,88 @@
+import React from 'react';
+import { PieceArtwork, SofaRenderer } from '@/components/SofaVisuals';
+import { CellType, GameState, SofaPiece } from '@/types/game';
+
+// Framed grid sized to a room; cellSize is the CSS track size of one cell
+export const RoomGrid: React.FC<React.HTMLAttributes<HTMLDivElement> & {
+  width: number,
+  height: number,
+  cellSize?: string
+}> = ({ width, height, cellSize = 'minmax(30px, 45px)', className = '', children, ...props }) => (
+  <div
+    className={`grid gap-1 w-max mx-auto border-4 border-gray-800 p-1 bg-gray-200 select-none ${className}`}
+    style={{
+      gridTemplateColumns: `repeat(${width}, ${cellSize})`,
+      gridTemplateRows: `repeat(${height}, ${cellSize})`
+    }}
+    {...props}
+  >
+    {children}
+  </div>
+);
+
+// One cell of the room: its floor, wall or door and the part of a sofa covering it.
+// Overlays such as previews go in children.
+export const RoomCell: React.FC<React.HTMLAttributes<HTMLDivElement> & {
+  cell: CellType,
+  x: number,
+  y: number,
+  sofa?: SofaPiece,
+  floorClassName?: string, // Background of an empty cell
+  sofaClassName?: string
+}> = ({ cell, x, y, sofa, floorClassName = 'bg-gray-100', sofaClassName = '', className = '', children, ...props }) => (
+  <div
+    className={`aspect-square flex items-center justify-center ${
+      cell === 'empty' ? floorClassName :
+      cell === 'wall' ? 'bg-gray-800' :
+      cell === 'door' ? 'bg-yellow-500' : ''
+    } ${className}`}
+    {...props}
+  >
+    {(cell === 'wall' || cell === 'door') && <SofaRenderer type={cell} />}
+    {sofa && (
+      <div className={`w-full h-full ${sofaClassName}`}>
+        <PieceArtwork
+          type={sofa.type}
+          position={sofa.position}
+          rotation={sofa.rotation}
+          flipped={sofa.flipped}
+          focus={{ x, y }}
+        />
+      </div>
+    )}
+    {children}
+  </div>
+);
+
+// Read-only room grid, drawn like the game board, with optional highlighted cells ("x,y" keys)
+const RoomView: React.FC<{
+  state: GameState,
+  highlight?: Set<string>
+}> = ({ state, highlight }) => {
+  const { level, grid, occupancy, sofas } = state;
+
+  return (
+    <div className="max-w-full overflow-auto">
+      <RoomGrid width={level.width} height={level.height}>
+        {grid.map((row, y) =>
+          row.map((cell, x) => {
+            const sofaId = occupancy[y][x];
+
+            return (
+              <RoomCell
+                key={`${x}-${y}`}
+                cell={cell}
+                x={x}
+                y={y}
+                sofa={sofaId !== null ? sofas.find(piece => piece.id === sofaId) : undefined}
+                className={highlight?.has(`${x},${y}`) ? 'ring-2 ring-inset ring-blue-500' : ''}
+              />
+            );
+          })
+        )}
+      </RoomGrid>
+    </div>
+  );
+};
+
+export default RoomView;
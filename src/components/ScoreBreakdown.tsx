@@ -0,0 +1,54 @@
+import React from 'react';
+import { LevelResult } from '@/types/game';
+import { formatStars } from '@/utils/scoring';
+
+const formatTime = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Stars and the lines that add up to the total score of a solved room
+const ScoreBreakdown: React.FC<{
+  result: LevelResult
+}> = ({ result }) => {
+  const rows: { label: string; value: string; muted?: boolean }[] = [
+    {
+      label: result.parIsEstimate ? 'Cells filled (room capacity)' : 'Cells filled (par)',
+      value: `${result.cellsFilled} / ${result.par}`
+    },
+    { label: 'Pieces used', value: `${result.piecesUsed} / ${result.piecesAvailable}` },
+    { label: 'Unused cells', value: String(result.unusedCells) },
+    ...(result.elapsedMs !== undefined ? [{ label: 'Time', value: formatTime(result.elapsedMs) }] : []),
+    ...result.bonuses.map(bonus => ({
+      label: bonus.label,
+      value: bonus.earned ? `+${bonus.points}` : '—',
+      muted: !bonus.earned
+    }))
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="text-center">
+        <div className="text-4xl tracking-widest" style={{ color: "#FBDA0C" }} aria-label={formatStars(result.stars)}>
+          {[1, 2, 3].map(star => (
+            <span key={star} className={star <= result.stars ? undefined : "opacity-25"}>★</span>
+          ))}
+        </div>
+        <p className="text-xl">Your score: {result.total} points</p>
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map(({ label, value, muted }) => (
+            <tr key={label} className={`border-b last:border-b-0 ${muted ? "text-muted-foreground" : ""}`}>
+              <td className="py-1 pr-4">{label}</td>
+              <td className="py-1 text-right font-medium">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-center text-xs text-muted-foreground">Scoring v{result.scoringVersion}</p>
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+
+const shortcuts: { keys: string[]; action: string }[] = [
+  { keys: ['←', '↑', '→', '↓'], action: 'Move the cursor' },
+  { keys: ['1', '…', '9'], action: 'Pick a piece from the inventory' },
+  { keys: ['R'], action: 'Rotate the selected piece' },
+  { keys: ['F'], action: 'Flip the selected piece' },
+  { keys: ['Enter'], action: 'Place the piece, or rotate the sofa under the cursor' },
+  { keys: ['Delete'], action: 'Remove the sofa under the cursor' },
+  { keys: ['C'], action: 'Check the solution' },
+  { keys: ['Ctrl', 'Z'], action: 'Undo (add Shift to redo)' },
+  { keys: ['?'], action: 'Show this help' },
+];
+
+// Help overlay listing the keyboard controls
+const ShortcutsDialog: React.FC<{
+  open: boolean,
+  onOpenChange: (open: boolean) => void
+}> = ({ open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Keyboard Shortcuts</DialogTitle>
+        <DialogDescription>
+          Click the room or Tab to it, then play without a mouse.
+        </DialogDescription>
+      </DialogHeader>
+      <table className="w-full text-sm">
+        <tbody>
+          {shortcuts.map(({ keys, action }) => (
+            <tr key={action} className="border-b last:border-b-0">
+              <td className="py-2 pr-4 whitespace-nowrap">
+                {keys.map(key => (
+                  <kbd key={key} className="mr-1 rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                    {key}
+                  </kbd>
+                ))}
+              </td>
+              <td className="py-2">{action}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutsDialog;
@@ -1,58 +1,110 @@
 import React from 'react';
-import { Rotation } from '@/types/game';
+import { Position, Rotation, SofaType } from '@/types/game';
+import { getPiece, getPieceCells, getPieceName, isChiral } from '@/utils/pieceCatalog';
 
-// SVG representations of different sofa types
-export const SofaSingle: React.FC = () => (
-  <svg viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
-    <rect x="5" y="5" width="30" height="30" rx="2" fill="#3B82F6" stroke="#1E40AF" strokeWidth="1" />
-    <rect x="10" y="10" width="20" height="20" rx="1" fill="#60A5FA" stroke="#1E40AF" strokeWidth="0.5" />
-    <rect x="5" y="30" width="5" height="5" rx="1" fill="#1E40AF" />
-    <rect x="30" y="30" width="5" height="5" rx="1" fill="#1E40AF" />
-    {/* Connection indicators */}
-    <path d="M20,5 L20,0 M20,35 L20,40 M5,20 L0,20 M35,20 L40,20" 
-          stroke="#1E40AF" strokeWidth="1" strokeDasharray="2,2" />
-  </svg>
-);
+// Size of one grid cell in SVG units
+const CELL = 40;
 
-export const SofaRectHorizontal: React.FC = () => (
-  <svg viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
-    <rect x="2" y="10" width="36" height="20" rx="2" fill="#3B82F6" stroke="#1E40AF" strokeWidth="1" />
-    <rect x="5" y="15" width="30" height="10" rx="1" fill="#60A5FA" stroke="#1E40AF" strokeWidth="0.5" />
-    <rect x="2" y="25" width="5" height="5" rx="1" fill="#1E40AF" />
-    <rect x="33" y="25" width="5" height="5" rx="1" fill="#1E40AF" />
-    {/* Connection indicators */}
-    <path d="M20,10 L20,0 M20,30 L20,40 M0,20 L2,20 M38,20 L40,20" 
-          stroke="#1E40AF" strokeWidth="1" strokeDasharray="2,2" />
-    {/* Center connection point */}
-    <line x1="20" y1="10" x2="20" y2="30" stroke="#1E40AF" strokeWidth="0.5" strokeDasharray="2,2" />
-  </svg>
-);
+const positionKey = (pos: Position) => `${pos.x},${pos.y}`;
 
-export const SofaRectVertical: React.FC = () => (
-  <svg viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
-    <rect x="10" y="2" width="20" height="36" rx="2" fill="#3B82F6" stroke="#1E40AF" strokeWidth="1" />
-    <rect x="15" y="5" width="10" height="30" rx="1" fill="#60A5FA" stroke="#1E40AF" strokeWidth="0.5" />
-    <rect x="10" y="2" width="5" height="5" rx="1" fill="#1E40AF" />
-    <rect x="10" y="33" width="5" height="5" rx="1" fill="#1E40AF" />
-    {/* Connection indicators */}
-    <path d="M10,20 L0,20 M30,20 L40,20 M20,0 L20,2 M20,38 L20,40" 
-          stroke="#1E40AF" strokeWidth="1" strokeDasharray="2,2" />
-    {/* Center connection point */}
-    <line x1="10" y1="20" x2="30" y2="20" stroke="#1E40AF" strokeWidth="0.5" strokeDasharray="2,2" />
-  </svg>
-);
+// Draw one cell of a piece, outlining the sides that don't join another cell of the same piece
+const PieceCell: React.FC<{
+  type: SofaType,
+  cell: Position,
+  cells: Set<string>,
+  isChaiseEnd?: boolean
+}> = ({ type, cell, cells, isChaiseEnd = false }) => {
+  const piece = getPiece(type);
+  if (!piece) return null;
 
-export const SofaL: React.FC = ({ style }) => (
-  <svg viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg" className="w-full h-full" style={style}>
-    <path d="M2,2 L38,2 L38,20 L20,20 L20,38 L2,38 Z" fill="#3B82F6" stroke="#1E40AF" strokeWidth="1" />
-    <path d="M5,5 L35,5 L35,17 L17,17 L17,35 L5,35 Z" fill="#60A5FA" stroke="#1E40AF" strokeWidth="0.5" />
-    <rect x="2" y="33" width="5" height="5" rx="1" fill="#1E40AF" />
-    <rect x="33" y="5" width="5" height="5" rx="1" fill="#1E40AF" />
-    {/* Connection indicators */}
-    <path d="M20,2 L20,0 M38,10 L40,10" stroke="#1E40AF" strokeWidth="1" strokeDasharray="2,2" />
-    <circle cx="20" cy="20" r="3" fill="#93C5FD" stroke="#1E40AF" strokeWidth="0.5" />
-  </svg>
-);
+  const { fill, stroke, cushion } = piece.art;
+  const joined = (dx: number, dy: number) => cells.has(positionKey({ x: cell.x + dx, y: cell.y + dy }));
+  const top = joined(0, -1);
+  const bottom = joined(0, 1);
+  const left = joined(-1, 0);
+  const right = joined(1, 0);
+
+  const x = cell.x * CELL;
+  const y = cell.y * CELL;
+  // Cushions run into joined cells so a multi-cell piece reads as one seat row
+  const inset = (isJoined: boolean) => isJoined ? 2 : 7;
+
+  return (
+    <g>
+      <rect x={x} y={y} width={CELL} height={CELL} fill={fill} />
+      <rect
+        x={x + inset(left)}
+        y={y + inset(top)}
+        width={CELL - inset(left) - inset(right)}
+        height={CELL - inset(top) - inset(bottom)}
+        rx="1"
+        fill={cushion}
+        stroke={stroke}
+        strokeWidth="0.5"
+      />
+      <g stroke={stroke} strokeWidth="2" strokeLinecap="square">
+        {!top && <line x1={x + 1} y1={y + 1} x2={x + CELL - 1} y2={y + 1} />}
+        {!bottom && <line x1={x + 1} y1={y + CELL - 1} x2={x + CELL - 1} y2={y + CELL - 1} />}
+        {!left && <line x1={x + 1} y1={y + 1} x2={x + 1} y2={y + CELL - 1} />}
+        {!right && <line x1={x + CELL - 1} y1={y + 1} x2={x + CELL - 1} y2={y + CELL - 1} />}
+      </g>
+      {/* Footrest showing which arm ends in the chaise, and so the handedness */}
+      {isChaiseEnd && (
+        <rect x={x + 12} y={y + 12} width={CELL - 24} height={CELL - 24} rx="3" fill={fill} stroke={stroke} strokeWidth="1" />
+      )}
+    </g>
+  );
+};
+
+/**
+ * Draw a catalog piece from its footprint
+ *
+ * With `focus` set only that board cell is shown, which is how the game grid
+ * draws a placed piece one cell at a time. Otherwise the whole piece is shown.
+ * Chiral pieces mark their chaise end so both handednesses can be told apart.
+ */
+export const PieceArtwork: React.FC<{
+  type: SofaType,
+  position?: Position,
+  rotation?: Rotation,
+  flipped?: boolean,
+  focus?: Position
+}> = ({ type, position = { x: 0, y: 0 }, rotation = 0, flipped = false, focus }) => {
+  if (!getPiece(type)) return null;
+
+  const cells = getPieceCells(type, position, rotation, flipped);
+  const cellKeys = new Set(cells.map(positionKey));
+  const chaiseEnd = isChiral(type) ? cells[cells.length - 1] : null;
+
+  let viewBox: string;
+  if (focus) {
+    viewBox = `${focus.x * CELL} ${focus.y * CELL} ${CELL} ${CELL}`;
+  } else {
+    const minX = Math.min(...cells.map(cell => cell.x));
+    const minY = Math.min(...cells.map(cell => cell.y));
+    const size = Math.max(
+      Math.max(...cells.map(cell => cell.x)) - minX + 1,
+      Math.max(...cells.map(cell => cell.y)) - minY + 1
+    );
+    viewBox = `${minX * CELL} ${minY * CELL} ${size * CELL} ${size * CELL}`;
+  }
+
+  return (
+    <svg viewBox={viewBox} xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
+      {cells
+        .filter(cell => !focus || (cell.x === focus.x && cell.y === focus.y))
+        .map(cell => (
+          <PieceCell
+            key={positionKey(cell)}
+            type={type}
+            cell={cell}
+            cells={cellKeys}
+            isChaiseEnd={cell === chaiseEnd}
+          />
+        ))}
+    </svg>
+  );
+};
 
 export const Door: React.FC = () => (
   <svg viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
@@ -79,23 +131,9 @@ export const Wall: React.FC = () => (
   </svg>
 );
 
-// Component to render the appropriate sofa based on type
+// Component to render the fixed parts of a room
 export const SofaRenderer: React.FC<{ type: string }> = ({ type }) => {
   switch (type) {
-    case 'sofa-single':
-      return <SofaSingle />;
-    case 'sofa-rect-h':
-      return <SofaRectHorizontal />;
-    case 'sofa-rect-v':
-      return <SofaRectVertical />;
-    case 'sofa-l-0':
-      return <SofaL style={{ transform: 'rotate(0deg)' }} />;
-    case 'sofa-l-90':
-      return <SofaL style={{ transform: 'rotate(270deg)' }} />;
-    case 'sofa-l-180':
-      return <SofaL style={{ transform: 'rotate(180deg)' }} />;
-    case 'sofa-l-270':
-      return <SofaL style={{ transform: 'rotate(90deg)' }} />;
     case 'door':
       return <Door />;
     case 'wall':
@@ -107,35 +145,13 @@ export const SofaRenderer: React.FC<{ type: string }> = ({ type }) => {
 
 // Component to render sofa selection buttons with rotation controls
 export const SofaSelectionButton: React.FC<{ 
-  type: string, 
+  type: SofaType, 
   selected: boolean, 
   rotation?: Rotation,
+  flipped?: boolean,
   onRotate?: () => void,
   onClick: () => void 
-}> = ({ type, selected, rotation = 0, onRotate, onClick }) => {
-  let displayType = '';
-  let sofaComponent: React.ReactNode;
-  
-  switch (type) {
-    case 'single':
-      displayType = 'Single';
-      sofaComponent = <SofaSingle />;
-      break;
-    case 'rectangular':
-      displayType = 'Rectangular';
-      sofaComponent = rotation === 0 || rotation === 180 ? <SofaRectHorizontal /> : <SofaRectVertical />;
-      break;
-    case 'l-shaped':
-      displayType = 'L-Shaped';
-      if (rotation === 0) sofaComponent = <SofaL style={{ transform: 'rotate(0deg)' }} />;
-      else if (rotation === 90) sofaComponent = <SofaL style={{ transform: 'rotate(270deg)' }} />;
-      else if (rotation === 180) sofaComponent = <SofaL style={{ transform: 'rotate(180deg)' }} />;
-      else sofaComponent = <SofaL style={{ transform: 'rotate(90deg)' }} />;
-      break;
-    default:
-      sofaComponent = null;
-  }
-
+}> = ({ type, selected, rotation = 0, flipped = false, onRotate, onClick }) => {
   // Format rotation for display
   const rotationDisplay = rotation > 0 ? ` (${rotation}°)` : '';
   
@@ -148,7 +164,7 @@ export const SofaSelectionButton: React.FC<{
     >
       <div className="relative w-full h-full flex items-center justify-center">
         <div className="w-full h-full">
-          {sofaComponent}
+          <PieceArtwork type={type} rotation={rotation} flipped={flipped} />
         </div>
         
         {/* Rotation indicator */}
@@ -175,7 +191,7 @@ export const SofaSelectionButton: React.FC<{
         )}
       </div>
       <div className="text-xs font-medium text-center mt-1">
-        {displayType}{rotationDisplay}
+        {getPieceName(type, flipped)}{rotationDisplay}
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { AnalysisKind, AnalysisProgress, AnalysisTask, AnalysisValues } from '@/utils/analysis';
+import {
+  AnalysisCancelledError,
+  AnalysisService,
+  connectAnalysisWorker,
+  connectInlineAnalysis,
+  createAnalysisService
+} from '@/utils/analysisService';
+
+interface RunningAnalysis {
+  label: string;
+  progress: AnalysisProgress | null;
+}
+
+// Runs one analysis at a time off the main thread; starting another cancels the one in flight
+const useAnalysis = () => {
+  const service = useRef<AnalysisService | null>(null);
+  const cancelCurrent = useRef<(() => void) | null>(null);
+  const [running, setRunning] = useState<RunningAnalysis | null>(null);
+
+  useEffect(() => {
+    service.current = createAnalysisService(typeof Worker !== 'undefined' ? connectAnalysisWorker : connectInlineAnalysis);
+    return () => {
+      service.current?.dispose();
+      service.current = null;
+    };
+  }, []);
+
+  const cancel = () => {
+    cancelCurrent.current?.();
+  };
+
+  // Resolves with the task's value, or null if it was cancelled
+  const run = async <K extends AnalysisKind>(
+    label: string,
+    task: Extract<AnalysisTask, { kind: K }>
+  ): Promise<AnalysisValues[K] | null> => {
+    if (!service.current) return null;
+    cancel();
+
+    const job = service.current.run(task, progress => {
+      setRunning(current => current && { ...current, progress });
+    });
+    cancelCurrent.current = job.cancel;
+    setRunning({ label, progress: null });
+
+    try {
+      return await job.result;
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) return null;
+      throw error;
+    } finally {
+      if (cancelCurrent.current === job.cancel) {
+        cancelCurrent.current = null;
+        setRunning(null);
+      }
+    }
+  };
+
+  return { running, run, cancel };
+};
+
+export { useAnalysis };
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { GameAction, GameState } from '@/types/game';
+import * as gameHistory from '@/utils/gameHistory';
+
+const useGameHistory = (createInitialState: () => GameState) => {
+  const [history, setHistory] = useState<gameHistory.GameHistory>(() =>
+    gameHistory.createHistory(createInitialState())
+  );
+
+  // Run an action through the engine; several in one event apply in order
+  const dispatch = (action: GameAction) => setHistory(current => gameHistory.applyAction(current, action));
+
+  const undo = () => setHistory(current => gameHistory.undo(current));
+  const redo = () => setHistory(current => gameHistory.redo(current));
+  const jumpTo = (index: number) => setHistory(current => gameHistory.jumpTo(current, index));
+  // Swap in a whole timeline, such as one restored from a saved game
+  const loadHistory = (next: gameHistory.GameHistory) => setHistory(next);
+
+  // Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      // Leave text fields their own undo
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      event.preventDefault();
+      setHistory(current => event.shiftKey ? gameHistory.redo(current) : gameHistory.undo(current));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return {
+    game: history.present,
+    history,
+    dispatch,
+    undo,
+    redo,
+    jumpTo,
+    loadHistory,
+    canUndo: gameHistory.canUndo(history),
+    canRedo: gameHistory.canRedo(history),
+  };
+};
+
+export { useGameHistory };
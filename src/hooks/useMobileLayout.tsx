@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+// Screens narrower than Tailwind's md breakpoint get the mobile layout
+const MOBILE_QUERY = '(max-width: 767px)';
+
+const useMobileLayout = () => {
+  // Start with the desktop layout so server and first client render match
+  const [isMobile, setIsMobile] = useState(false);
+  const [viewportWidth, setViewportWidth] = useState(1024);
+
+  useEffect(() => {
+    const query = window.matchMedia(MOBILE_QUERY);
+    const update = () => {
+      setIsMobile(query.matches);
+      setViewportWidth(window.innerWidth);
+    };
+
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, []);
+
+  return { isMobile, viewportWidth };
+};
+
+export { useMobileLayout };
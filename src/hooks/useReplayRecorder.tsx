@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { GameHistory } from '@/utils/gameHistory';
+import { Replay, recordHistoryChange, startReplay } from '@/utils/replay';
+
+// Record a replay of the timeline as it changes, timed by the level's clock
+const useReplayRecorder = (history: GameHistory, getElapsedMs: () => number) => {
+  const previousRef = useRef(history);
+  const replayRef = useRef<Replay>(startReplay(history));
+  // The clock is read when the timeline changes, not a reason to record
+  const getElapsedMsRef = useRef(getElapsedMs);
+  getElapsedMsRef.current = getElapsedMs;
+
+  useEffect(() => {
+    if (history === previousRef.current) return;
+    replayRef.current = recordHistoryChange(replayRef.current, previousRef.current, history, getElapsedMsRef.current());
+    previousRef.current = history;
+  }, [history]);
+
+  return {
+    getReplay: () => replayRef.current,
+  };
+};
+
+export { useReplayRecorder };
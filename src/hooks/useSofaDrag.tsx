@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import { Position, Rotation, SofaType } from '@/types/game';
+import { getNextRotation, getPieceCells, isChiral } from '@/utils/pieceCatalog';
+
+export interface SofaDrag {
+  type: SofaType;
+  rotation: Rotation;
+  flipped: boolean;
+  from: Position | null; // Board cell a placed sofa was picked up from, or null for a piece from the inventory
+  grabbedCell: number; // Index of the piece cell held under the pointer
+  moved: boolean; // The pointer has left the cell the drag started on
+}
+
+const samePosition = (a: Position | null, b: Position) => a !== null && a.x === b.x && a.y === b.y;
+
+// Anchor that puts the grabbed cell of the dragged piece on a board cell
+const getDragAnchor = (drag: SofaDrag, pos: Position): Position => {
+  const offset = getPieceCells(drag.type, { x: 0, y: 0 }, drag.rotation, drag.flipped)[drag.grabbedCell];
+  return { x: pos.x - offset.x, y: pos.y - offset.y };
+};
+
+const useSofaDrag = (onDrop: (drag: SofaDrag, anchor: Position) => void) => {
+  const [drag, setDrag] = useState<SofaDrag | null>(null);
+  // Set when a drop ends on a cell, so a click that follows the pointerup is ignored.
+  // Browsers only send that click when the drag started and ended on the same cell.
+  const justDropped = useRef(false);
+
+  const startDrag = (next: Omit<SofaDrag, 'moved'>) => {
+    justDropped.current = false;
+    setDrag({ ...next, moved: next.from === null });
+  };
+
+  const enterCell = (pos: Position) => {
+    if (drag && !drag.moved && !samePosition(drag.from, pos)) {
+      setDrag({ ...drag, moved: true });
+    }
+  };
+
+  // Drop on a cell; a pointerup on the cell the drag started from is a plain click
+  const dropOn = (pos: Position) => {
+    if (!drag) return;
+    if (drag.moved) {
+      justDropped.current = true;
+      onDrop(drag, getDragAnchor(drag, pos));
+    }
+    setDrag(null);
+  };
+
+  const consumeClick = (): boolean => {
+    const ignore = justDropped.current;
+    justDropped.current = false;
+    return ignore;
+  };
+
+  // While dragging: R rotates, F flips, Escape or releasing outside the grid puts the piece back,
+  // as does the browser taking over a touch to scroll
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (key === 'r') {
+        event.preventDefault();
+        setDrag({ ...drag, rotation: getNextRotation(drag.type, drag.rotation) });
+      } else if (key === 'f' && drag.from === null && isChiral(drag.type)) {
+        event.preventDefault();
+        setDrag({ ...drag, flipped: !drag.flipped });
+      } else if (key === 'escape') {
+        setDrag(null);
+      }
+    };
+    const handlePointerUp = () => setDrag(null);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [drag]);
+
+  return { drag, startDrag, enterCell, dropOn, consumeClick };
+};
+
+export { useSofaDrag, getDragAnchor };
@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import { Position } from '@/types/game';
+
+// How long a finger has to rest on a cell to count as a long press
+const LONG_PRESS_MS = 500;
+// Movement that turns a press into a scroll rather than a long press
+const MOVE_TOLERANCE_PX = 10;
+// Twist needed for one quarter turn of the piece
+const TWIST_STEP_DEGREES = 45;
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+interface TwoFingerStart {
+  distance: number;
+  angle: number;
+  zoom: number;
+}
+
+// Distance and angle between the first two touches
+const measureTouches = (touches: React.TouchList) => {
+  const dx = touches[1].clientX - touches[0].clientX;
+  const dy = touches[1].clientY - touches[0].clientY;
+  return { distance: Math.hypot(dx, dy), angle: Math.atan2(dy, dx) * 180 / Math.PI };
+};
+
+/**
+ * Touch gestures for the room grid: long-press a cell, twist two fingers to
+ * rotate and pinch to zoom
+ *
+ * @param onLongPress Called with the cell a finger rested on
+ * @param onTwist Called with 1 for each clockwise quarter twist and -1 for anticlockwise
+ */
+const useTouchGestures = (
+  onLongPress: (pos: Position) => void,
+  onTwist: (direction: 1 | -1) => void
+) => {
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pressStart = useRef<{ x: number; y: number } | null>(null);
+  const twoFingerStart = useRef<TwoFingerStart | null>(null);
+  // Set when a long press fired, so the click that follows the finger lifting is ignored
+  const longPressed = useRef(false);
+
+  const cancelPress = () => {
+    if (pressTimer.current) clearTimeout(pressTimer.current);
+    pressTimer.current = null;
+    pressStart.current = null;
+  };
+
+  // Start timing a press on a cell; only touch pointers long-press
+  const startPress = (pos: Position, event: React.PointerEvent) => {
+    cancelPress();
+    longPressed.current = false;
+    if (event.pointerType !== 'touch') return;
+
+    pressStart.current = { x: event.clientX, y: event.clientY };
+    pressTimer.current = setTimeout(() => {
+      pressTimer.current = null;
+      longPressed.current = true;
+      onLongPress(pos);
+    }, LONG_PRESS_MS);
+  };
+
+  const movePress = (event: React.PointerEvent) => {
+    const start = pressStart.current;
+    if (start && Math.hypot(event.clientX - start.x, event.clientY - start.y) > MOVE_TOLERANCE_PX) {
+      cancelPress();
+    }
+  };
+
+  const consumeLongPress = (): boolean => {
+    const ignore = longPressed.current;
+    longPressed.current = false;
+    return ignore;
+  };
+
+  const onTouchStart = (event: React.TouchEvent) => {
+    if (event.touches.length !== 2) return;
+    cancelPress();
+    twoFingerStart.current = { ...measureTouches(event.touches), zoom };
+  };
+
+  const onTouchMove = (event: React.TouchEvent) => {
+    const start = twoFingerStart.current;
+    if (!start || event.touches.length !== 2) return;
+
+    const { distance, angle } = measureTouches(event.touches);
+    setZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, start.zoom * distance / start.distance)));
+
+    // Normalise the twist to -180..180 so crossing the atan2 seam doesn't count as a full turn
+    const twist = ((angle - start.angle + 540) % 360) - 180;
+    if (Math.abs(twist) >= TWIST_STEP_DEGREES) {
+      onTwist(twist > 0 ? 1 : -1);
+      start.angle = angle;
+    }
+  };
+
+  const onTouchEnd = (event: React.TouchEvent) => {
+    if (event.touches.length < 2) twoFingerStart.current = null;
+  };
+
+  return {
+    zoom,
+    setZoom,
+    startPress,
+    movePress,
+    endPress: cancelPress,
+    consumeLongPress,
+    touchHandlers: { onTouchStart, onTouchMove, onTouchEnd, onTouchCancel: onTouchEnd }
+  };
+};
+
+export { useTouchGestures };
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { SubmissionError, submissionSchema, verifySubmission } from "@/utils/leaderboard";
+import { addScore, getTopScores } from "@/utils/scoreStore";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/scores?level=<id>&limit=<n>: top entries of a level
+ * POST /api/scores: submit a finished room, { level, player, placements }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const { level, limit } = req.query;
+    if (typeof level !== 'string' || level === '') {
+      res.status(400).json({ error: 'Missing "level" query parameter' });
+      return;
+    }
+    const count = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : DEFAULT_LIMIT;
+    try {
+      res.status(200).json({ level, entries: await getTopScores(level, Math.min(Math.max(count, 1), MAX_LIMIT)) });
+    } catch (error) {
+      console.error('Reading the scores failed', error);
+      res.status(500).json({ error: "Couldn't read the leaderboard" });
+    }
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const parsed = submissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      res.status(400).json({ error: `${issue.path.join('.') || 'Body'}: ${issue.message}` });
+      return;
+    }
+
+    let result;
+    try {
+      result = verifySubmission(parsed.data);
+    } catch (error) {
+      if (error instanceof SubmissionError) {
+        res.status(error.reason === 'unknown-level' ? 404 : 422).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const stored = await addScore(parsed.data, {
+        score: result.cellsFilled,
+        stars: result.stars,
+        scoringVersion: result.scoringVersion
+      });
+      res.status(201).json(stored);
+    } catch (error) {
+      console.error('Saving the score failed', error);
+      res.status(500).json({ error: "Couldn't save the score" });
+    }
+    return;
+  }
+
+  res.setHeader('Allow', 'GET, POST');
+  res.status(405).json({ error: `Method ${req.method} not allowed` });
+}
@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import Head from "next/head";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
+import { BenchmarkResult, runPathfindingBenchmark } from "@/utils/pathfindingBenchmark";
+
+const formatMs = (ms: number) => `${ms.toFixed(3)} ms`;
+
+export default function Benchmark() {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runBenchmark = () => {
+    setIsRunning(true);
+    // Let the button show its running state before the main thread is busy
+    setTimeout(() => {
+      setResults(runPathfindingBenchmark());
+      setIsRunning(false);
+    }, 0);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Pathfinding Benchmark - Friheten</title>
+        <meta name="description" content="Timings of the Friheten pathfinding core" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="bg-background min-h-screen flex flex-col" style={{ backgroundColor: "#FBDA0C" }}>
+        <main className="flex-1 p-4">
+          <div className="container mx-auto">
+            <Header />
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div style={{ color: "#0057AD" }}>
+                    <CardTitle>Pathfinding Benchmark</CardTitle>
+                    <CardDescription>
+                      Average time per call on seeded square rooms with scattered walls and sofas.
+                    </CardDescription>
+                  </div>
+                  <Button onClick={runBenchmark} disabled={isRunning}>
+                    {isRunning ? "Running..." : "Run Benchmark"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Cells</TableHead>
+                      <TableHead>Reachable</TableHead>
+                      <TableHead>findPath</TableHead>
+                      <TableHead>findAllReachablePositions</TableHead>
+                      <TableHead>identifyCriticalPaths</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map(result => (
+                      <TableRow key={result.size}>
+                        <TableCell>{result.size}x{result.size}</TableCell>
+                        <TableCell>{result.cells}</TableCell>
+                        <TableCell>{result.reachableCells}</TableCell>
+                        <TableCell>{formatMs(result.findPathMs)}</TableCell>
+                        <TableCell>{formatMs(result.reachableMs)}</TableCell>
+                        <TableCell>{formatMs(result.criticalPathsMs)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {results.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          Run the benchmark to time rooms from 10x10 up to 100x100.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
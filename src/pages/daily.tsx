@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { getDailyStreak, parseDateKey, toDateKey } from "@/utils/dailyChallenge";
+import { DailyResults, loadSave } from "@/utils/saveGame";
+
+export default function Daily() {
+  const router = useRouter();
+  const [results, setResults] = useState<DailyResults>({});
+  const [selectedDate, setSelectedDate] = useState<Date>(() => new Date());
+
+  useEffect(() => {
+    setResults(loadSave().daily);
+  }, []);
+
+  const today = toDateKey(new Date());
+  const selectedKey = toDateKey(selectedDate);
+  const selectedResult = results[selectedKey];
+  const streak = getDailyStreak(results, today);
+  const finishedDates = Object.keys(results).flatMap(key => parseDateKey(key) ?? []);
+
+  return (
+    <>
+      <Head>
+        <title>Daily Challenge - Friheten</title>
+        <meta name="description" content="A new Friheten room every day" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="bg-background min-h-screen flex flex-col" style={{ backgroundColor: "#FBDA0C" }}>
+        <main className="flex-1 p-4">
+          <div className="container mx-auto">
+            <Header />
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div style={{ color: "#0057AD" }}>
+                    <CardTitle>Daily Challenge</CardTitle>
+                    <CardDescription>
+                      Everyone gets the same room each day. Finish it on the day to keep your streak going.
+                    </CardDescription>
+                  </div>
+                  <Button onClick={() => router.push(`/?daily=${today}`)}>
+                    {results[today] ? "Replay Today" : "Play Today"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="flex flex-col md:flex-row gap-6">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(date) => date && setSelectedDate(date)}
+                  disabled={{ after: new Date() }}
+                  modifiers={{ finished: finishedDates }}
+                  modifiersClassNames={{ finished: "bg-green-200 font-semibold" }}
+                  className="rounded-md border bg-background self-start"
+                />
+                <div className="space-y-4">
+                  <div>
+                    <div className="text-sm text-muted-foreground">Current streak</div>
+                    <div className="text-2xl font-bold">{streak} {streak === 1 ? "day" : "days"}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-muted-foreground">{selectedKey === today ? "Today" : selectedKey}</div>
+                    {selectedResult ? (
+                      <div>
+                        <span aria-label={`${selectedResult.stars} of 3 stars`}>
+                          {'★'.repeat(selectedResult.stars) + '☆'.repeat(3 - selectedResult.stars)}
+                        </span>
+                        {' '}Best score: {selectedResult.bestScore}
+                      </div>
+                    ) : (
+                      <div>Not finished yet.</div>
+                    )}
+                  </div>
+                  <Button variant="outline" onClick={() => router.push(`/?daily=${selectedKey}`)}>
+                    Play {selectedKey === today ? "Today's" : "This"} Room
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
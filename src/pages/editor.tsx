@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import Header from "@/components/Header";
+import LevelFileControls from "@/components/LevelFileControls";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { SofaRenderer } from "@/components/SofaVisuals";
+import { Level, LevelObjective } from "@/types/game";
+import {
+  EditorTool,
+  MAX_LEVEL_SIZE,
+  MIN_LEVEL_SIZE,
+  createBlankLevel,
+  loadEditorDraft,
+  paintCell,
+  resizeLevel,
+  saveEditorDraft,
+  savePlaytestLevel,
+  setInventoryCount,
+  validateLevelLayout,
+} from "@/utils/levelEditor";
+import { DEFAULT_OBJECTIVE, describeObjective, getObjective } from "@/utils/objectives";
+import { PIECE_CATALOG, getInventoryCells, getInventoryKey, getInventorySeats, getPieceName } from "@/utils/pieceCatalog";
+
+const tools: { tool: EditorTool; label: string }[] = [
+  { tool: 'wall', label: 'Wall' },
+  { tool: 'floor', label: 'Floor' },
+  { tool: 'door', label: 'Door' },
+];
+
+// One inventory row per piece, and a second one for the flipped handedness of chiral pieces
+const inventoryRows = PIECE_CATALOG.flatMap(piece => (piece.chiral ? [false, true] : [false]).map(flipped => ({
+  key: getInventoryKey(piece.id, flipped),
+  label: getPieceName(piece.id, flipped)
+})));
+
+// Objective kinds, each starting from a target that fits the current inventory
+const objectiveOptions: { kind: LevelObjective['kind']; label: string; create: (level: Level) => LevelObjective }[] = [
+  { kind: 'max-empty-cells', label: 'Fill the room', create: () => DEFAULT_OBJECTIVE },
+  { kind: 'fill-cells', label: 'Cover cells', create: level => ({ kind: 'fill-cells', cells: Math.max(1, getInventoryCells(level.inventory)) }) },
+  { kind: 'use-all-pieces', label: 'Use every piece', create: () => ({ kind: 'use-all-pieces' }) },
+  { kind: 'seats', label: 'Seat people', create: level => ({ kind: 'seats', seats: Math.max(1, getInventorySeats(level.inventory)) }) },
+];
+
+// Change the number an objective asks for, if it has one
+const setObjectiveTarget = (objective: LevelObjective, target: number): LevelObjective => {
+  switch (objective.kind) {
+    case 'fill-cells':
+      return { ...objective, cells: Math.max(1, target) };
+    case 'max-empty-cells':
+      return { ...objective, cells: Math.max(0, target) };
+    case 'seats':
+      return { ...objective, seats: Math.max(1, target) };
+    case 'use-all-pieces':
+      return objective;
+  }
+};
+
+const getObjectiveTarget = (objective: LevelObjective): number | null =>
+  objective.kind === 'seats' ? objective.seats : objective.kind === 'use-all-pieces' ? null : objective.cells;
+
+// Keep a number input within the allowed room size
+const clampSize = (value: number) => Math.max(MIN_LEVEL_SIZE, Math.min(MAX_LEVEL_SIZE, value || MIN_LEVEL_SIZE));
+
+export default function Editor() {
+  const router = useRouter();
+  const [level, setLevel] = useState<Level>(() => createBlankLevel(8, 8));
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [isPainting, setIsPainting] = useState(false);
+
+  // Restore the level being edited after a play-test
+  useEffect(() => {
+    const draft = loadEditorDraft();
+    if (draft) setLevel(draft);
+  }, []);
+
+  // Stop painting when the mouse is released anywhere
+  useEffect(() => {
+    const stopPainting = () => setIsPainting(false);
+    window.addEventListener('mouseup', stopPainting);
+    return () => window.removeEventListener('mouseup', stopPainting);
+  }, []);
+
+  const updateLevel = (next: Level) => {
+    setLevel(next);
+    saveEditorDraft(next);
+  };
+
+  const objective = getObjective(level);
+  const objectiveTarget = getObjectiveTarget(objective);
+  const issues = validateLevelLayout(level);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  const issueCells = new Set(issues.flatMap(issue => issue.positions.map(pos => `${pos.x},${pos.y}`)));
+  const wallCells = new Set(level.walls.map(wall => `${wall.x},${wall.y}`));
+
+  const paint = (x: number, y: number) => {
+    updateLevel(paintCell(level, { x, y }, tool));
+  };
+
+  const playTest = () => {
+    savePlaytestLevel(level);
+    router.push('/?playtest=1');
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Level Editor - Friheten</title>
+        <meta name="description" content="Build your own Friheten rooms" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="bg-background min-h-screen flex flex-col" style={{ backgroundColor: "#FBDA0C" }}>
+        <main className="flex-1 p-4">
+          <div className="container mx-auto">
+            <Header />
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Settings Column */}
+              <div className="lg:w-1/3">
+                <Card className="mb-6">
+                  <CardHeader>
+                    <div style={{ color: "#0057AD" }}>
+                      <CardTitle>Level Editor</CardTitle>
+                      <CardDescription>
+                        Paint walls and the door, then play-test your room.
+                      </CardDescription>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <span>Name:</span>
+                      <Input value={level.name} onChange={(e) => updateLevel({ ...level, name: e.target.value })} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <span>Width:</span>
+                        <Input
+                          type="number"
+                          min={MIN_LEVEL_SIZE}
+                          max={MAX_LEVEL_SIZE}
+                          value={level.width}
+                          onChange={(e) => updateLevel(resizeLevel(level, clampSize(Number(e.target.value)), level.height))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <span>Height:</span>
+                        <Input
+                          type="number"
+                          min={MIN_LEVEL_SIZE}
+                          max={MAX_LEVEL_SIZE}
+                          value={level.height}
+                          onChange={(e) => updateLevel(resizeLevel(level, level.width, clampSize(Number(e.target.value))))}
+                        />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Inventory Card */}
+                <Card className="mb-6">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Inventory</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {inventoryRows.map(({ key, label }) => (
+                      <div key={key} className="flex items-center justify-between gap-4">
+                        <span>{label}:</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-24"
+                          value={level.inventory[key] ?? 0}
+                          onChange={(e) => updateLevel(setInventoryCount(level, key, Math.floor(Number(e.target.value)) || 0))}
+                        />
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {/* Objective Card */}
+                <Card className="mb-6">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Objective</CardTitle>
+                    <CardDescription>{describeObjective(objective)}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                      {objectiveOptions.map(option => (
+                        <Button
+                          key={option.kind}
+                          size="sm"
+                          variant={objective.kind === option.kind ? "default" : "outline"}
+                          onClick={() => {
+                            if (objective.kind !== option.kind) updateLevel({ ...level, objective: option.create(level) });
+                          }}
+                        >
+                          {option.label}
+                        </Button>
+                      ))}
+                    </div>
+                    {objectiveTarget !== null && (
+                      <div className="flex items-center justify-between gap-4">
+                        <span>Target:</span>
+                        <Input
+                          type="number"
+                          min={objective.kind === 'max-empty-cells' ? 0 : 1}
+                          className="w-24"
+                          value={objectiveTarget}
+                          onChange={(e) => updateLevel({
+                            ...level,
+                            objective: setObjectiveTarget(objective, Math.floor(Number(e.target.value)) || 0)
+                          })}
+                        />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Validation Card */}
+                <Card className="mb-6">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Checks</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {issues.length === 0 && (
+                      <div className="p-2 bg-muted rounded-md">The room is ready to play.</div>
+                    )}
+                    {issues.map(issue => (
+                      <div
+                        key={issue.code}
+                        className={`p-2 rounded-md text-sm ${
+                          issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                        }`}
+                      >
+                        {issue.message}
+                      </div>
+                    ))}
+                  </CardContent>
+                  <CardFooter className="flex flex-col gap-4 border-t pt-4">
+                    <div className="w-full">
+                      <LevelFileControls level={level} onImport={updateLevel} />
+                    </div>
+                    <div className="flex w-full justify-between">
+                      <Button variant="outline" onClick={() => updateLevel(createBlankLevel(level.width, level.height))}>
+                        Clear
+                      </Button>
+                      <Button onClick={playTest} disabled={hasErrors}>Play-test</Button>
+                    </div>
+                  </CardFooter>
+                </Card>
+              </div>
+
+              {/* Editor Grid Column */}
+              <div className="lg:w-2/3">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Room Layout</CardTitle>
+                    <CardDescription>
+                      Pick a tool, then click or drag over cells to paint them
+                    </CardDescription>
+                    <div className="flex gap-2 pt-2">
+                      {tools.map(({ tool: option, label }) => (
+                        <Button
+                          key={option}
+                          size="sm"
+                          variant={tool === option ? "default" : "outline"}
+                          onClick={() => setTool(option)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex justify-center">
+                    <div
+                      className="grid gap-1 border-4 border-gray-800 p-1 bg-gray-200 select-none"
+                      style={{
+                        gridTemplateColumns: `repeat(${level.width}, minmax(30px, 45px))`,
+                        gridTemplateRows: `repeat(${level.height}, minmax(30px, 45px))`
+                      }}
+                    >
+                      {Array.from({ length: level.height }, (_, y) =>
+                        Array.from({ length: level.width }, (_, x) => {
+                          const posKey = `${x},${y}`;
+                          const isDoor = level.doorPosition.x === x && level.doorPosition.y === y;
+                          const isWall = wallCells.has(posKey);
+
+                          return (
+                            <div
+                              key={posKey}
+                              className={`aspect-square flex items-center justify-center cursor-pointer ${
+                                isDoor ? 'bg-yellow-500' : isWall ? 'bg-gray-800' : 'bg-gray-100 hover:bg-gray-200'
+                              } ${issueCells.has(posKey) ? 'ring-2 ring-inset ring-red-500' : ''}`}
+                              onMouseDown={() => {
+                                setIsPainting(true);
+                                paint(x, y);
+                              }}
+                              onMouseEnter={() => {
+                                if (isPainting && tool !== 'door') paint(x, y);
+                              }}
+                            >
+                              {isDoor && <SofaRenderer type="door" />}
+                              {!isDoor && isWall && <SofaRenderer type="wall" />}
+                            </div>
+                          );
+                        })
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
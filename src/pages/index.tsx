@@ -1,507 +1,634 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import Head from "next/head";
+import { useRouter } from "next/router";
 import Header from "@/components/Header";
+import HistoryPanel from "@/components/HistoryPanel";
+import ShortcutsDialog from "@/components/ShortcutsDialog";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import LevelSelectDialog from "@/components/LevelSelectDialog";
+import LeaderboardPanel from "@/components/LeaderboardPanel";
+import InventoryPanel from "@/components/InventoryPanel";
+import LevelFileControls from "@/components/LevelFileControls";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
-import { SofaRenderer, SofaSelectionButton } from "@/components/SofaVisuals";
+import { PieceArtwork } from "@/components/SofaVisuals";
+import { RoomCell, RoomGrid } from "@/components/RoomView";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription, DrawerFooter } from "@/components/ui/drawer";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
-import { generateLevel } from "@/utils/levelGenerator";
-import { CellType, Position, SofaType, SofaPiece, Level, Rotation, SofaInventory } from "@/types/game";
-import { findPath, findAllReachablePositions, isAdjacentToReachable, identifyCriticalPaths } from "@/utils/pathfinding";
-
-// Number of predefined levels before generating procedural ones
-const NUM_PREDEFINED_LEVELS = 2;
-
-// Predefined game levels
-const predefinedLevels: Level[] = [
-  {
-    name: "Level 1: Small Room",
-    width: 6,
-    height: 6,
-    walls: [
-      // Top wall
-      { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }, { x: 5, y: 0 },
-      // Bottom wall
-      { x: 0, y: 5 }, { x: 1, y: 5 }, { x: 2, y: 5 }, { x: 3, y: 5 }, { x: 4, y: 5 }, { x: 5, y: 5 },
-      // Left wall (excluding door)
-      { x: 0, y: 1 }, { x: 0, y: 3 }, { x: 0, y: 4 },
-      // Right wall
-      { x: 5, y: 1 }, { x: 5, y: 2 }, { x: 5, y: 3 }, { x: 5, y: 4 },
-    ],
-    doorPosition: { x: 0, y: 2 },
-    inventory: {
-      single: 3,
-      rectangular: 2,
-      'l-shaped': 1
-    }
-  },
-  {
-    name: "Level 2: L-Shaped Room",
-    width: 8,
-    height: 8,
-    walls: [
-      // Outer walls
-      // Top
-      { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }, { x: 5, y: 0 }, { x: 6, y: 0 }, { x: 7, y: 0 },
-      // Bottom
-      { x: 0, y: 7 }, { x: 1, y: 7 }, { x: 2, y: 7 }, { x: 3, y: 7 }, { x: 4, y: 7 }, { x: 5, y: 7 }, { x: 6, y: 7 }, { x: 7, y: 7 },
-      // Left
-      { x: 0, y: 1 }, { x: 0, y: 2 }, { x: 0, y: 3 }, { x: 0, y: 5 }, { x: 0, y: 6 },
-      // Right
-      { x: 7, y: 1 }, { x: 7, y: 2 }, { x: 7, y: 3 }, { x: 7, y: 4 }, { x: 7, y: 5 }, { x: 7, y: 6 },
-      
-      // Inner walls to create L-shape
-      { x: 2, y: 4 }, { x: 3, y: 4 }, { x: 4, y: 4 }, // Removed wall at {x: 1, y: 4} to ensure door access
-      { x: 4, y: 1 }, { x: 4, y: 2 }, { x: 4, y: 3 },
-    ],
-    doorPosition: { x: 0, y: 4 },
-    inventory: {
-      single: 4,
-      rectangular: 3,
-      'l-shaped': 2
-    }
-  }
-];
-
-// Function to get a level (predefined or generated)
-function getLevel(levelIndex: number): Level {
-  if (levelIndex < NUM_PREDEFINED_LEVELS) {
-    return predefinedLevels[levelIndex];
-  } else {
-    // Calculate complexity based on level number (0.2 to 0.9)
-    const complexity = Math.min(0.2 + (levelIndex - NUM_PREDEFINED_LEVELS) * 0.1, 0.9);
-    return generateLevel(complexity, levelIndex + 1);
-  }
-}
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import { createSeed, parseSeed } from "@/utils/random";
+import { GENERATOR_VERSION, GENERATOR_VERSIONS } from "@/utils/levelGenerator";
+import { getCampaignLevel } from "@/utils/campaign";
+import { loadPlaytestLevel } from "@/utils/levelEditor";
+import { SofaType, Level, Position, PlacementPreview, Rotation, SofaPiece, GameAction } from "@/types/game";
+import {
+  createGameState,
+  findSofaAt,
+  gameReducer,
+  getCriticalPaths,
+  getSofaCells,
+  previewMove,
+  previewPlacement,
+} from "@/utils/gameEngine";
+import {
+  getInventoryCount,
+  getInventoryPieces,
+  getNextRotation,
+  getPiece,
+  getPieceName,
+  getPreviousRotation,
+  isChiral
+} from "@/utils/pieceCatalog";
+import { Hint } from "@/utils/hints";
+import { describeObjective, getObjective } from "@/utils/objectives";
+import { parseDateKey, toDateKey } from "@/utils/dailyChallenge";
+import { GameHistory } from "@/utils/gameHistory";
+import { getCampaignLevelId, getDailyLevelId } from "@/utils/leaderboard";
+import { encodeReplay, replayFileName, saveReplayForViewer } from "@/utils/replay";
+import { downloadTextFile } from "@/utils/download";
+import {
+  CampaignProgress,
+  DailyResults,
+  SAVE_VERSION,
+  SavedBoard,
+  createEmptySave,
+  discardBoard,
+  getBoardSlot,
+  loadSave,
+  recordDailyResult,
+  recordLevelResult,
+  restoreBoard,
+  saveBoard,
+  storeBoard,
+  writeSave
+} from "@/utils/saveGame";
+import { useGameHistory } from "@/hooks/useGameHistory";
+import { SofaDrag, getDragAnchor, useSofaDrag } from "@/hooks/useSofaDrag";
+import { useMobileLayout } from "@/hooks/useMobileLayout";
+import { MIN_ZOOM, useTouchGestures } from "@/hooks/useTouchGestures";
+import { useAnalysis } from "@/hooks/useAnalysis";
+import { useReplayRecorder } from "@/hooks/useReplayRecorder";
+
+// Tints for the preview of the selected or dragged piece
+const previewCellClasses: Record<PlacementPreview['status'], string> = {
+  valid: 'bg-green-200 outline outline-2 -outline-offset-2 outline-green-600',
+  blocked: 'bg-red-200 outline outline-2 -outline-offset-2 outline-red-600',
+  unsafe: 'bg-amber-200 outline outline-2 -outline-offset-2 outline-amber-500'
+};
 
-// Available sofa types
-const availableSofaTypes: SofaType[] = ['single', 'rectangular', 'l-shaped'];
+// Cell size limits, in pixels, when fitting the room to a phone screen
+const MIN_MOBILE_CELL_PX = 24;
+const MAX_MOBILE_CELL_PX = 45;
 
 export default function Home() {
-  const [grid, setGrid] = useState<CellType[][]>([]);
-  const [sofas, setSofas] = useState<SofaPiece[]>([]);
+  const router = useRouter();
+  const isPlaytest = router.query.playtest !== undefined;
+  // Daily challenge opened from the calendar; future dates aren't playable yet
+  const requestedDaily = typeof router.query.daily === 'string' && parseDateKey(router.query.daily) !== null &&
+    router.query.daily <= toDateKey(new Date()) ? router.query.daily : null;
+  const { game, history, dispatch: dispatchGame, undo, redo, jumpTo, loadHistory, canUndo, canRedo } = useGameHistory(
+    () => createGameState(getCampaignLevel(0))
+  );
   const [selectedSofaType, setSelectedSofaType] = useState<SofaType>('rectangular');
   const [selectedRotation, setSelectedRotation] = useState<Rotation>(0);
-  const [nextSofaId, setNextSofaId] = useState(1);
-  const [message, setMessage] = useState<string>('Place sofas in the room. Make sure all sofas are reachable and the door is not blocked.');
-  const [currentLevel, setCurrentLevel] = useState<Level>(getLevel(0));
-  const [levelIndex, setLevelIndex] = useState(0);
+  const [selectedFlipped, setSelectedFlipped] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [levelIndex, setLevelIndex] = useState(0); // Campaign level, kept while playing custom rooms
+  const [isCampaignLevel, setIsCampaignLevel] = useState(true);
+  const [dailyDate, setDailyDate] = useState<string | null>(null); // Date key while playing a daily challenge
+  const [campaign, setCampaign] = useState<CampaignProgress>(() => createEmptySave().campaign);
+  const [dailyResults, setDailyResults] = useState<DailyResults>({});
+  // Nothing is saved until the stored game has been read, so it isn't overwritten by the starting room
+  const [isSaveLoaded, setIsSaveLoaded] = useState(false);
+  const [savedBoard, setSavedBoard] = useState<SavedBoard | null>(null); // Offered by the Continue dialog
+  const savedBoards = useRef<Record<string, SavedBoard>>({}); // Unfinished boards by save slot
+  const [showLevelSelect, setShowLevelSelect] = useState(false);
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
-  const [score, setScore] = useState(0);
   const [isRemoving, setIsRemoving] = useState(false);
   const [showCustomLevelDialog, setShowCustomLevelDialog] = useState(false);
   const [customComplexity, setCustomComplexity] = useState(0.5);
+  const [customSeed, setCustomSeed] = useState('');
+  const [customGeneratorVersion, setCustomGeneratorVersion] = useState(GENERATOR_VERSION);
   const [criticalPathCells, setCriticalPathCells] = useState<Set<string>>(new Set());
   const [showCriticalPaths, setShowCriticalPaths] = useState(false);
-  const [inventory, setInventory] = useState<SofaInventory>({ single: 0, rectangular: 0, 'l-shaped': 0 });
+  const [hoveredSofaId, setHoveredSofaId] = useState<number | null>(null);
+  // Cell under the pointer, or the keyboard cursor while the grid has focus
+  const [cursor, setCursor] = useState<Position | null>(null);
+  const [isGridFocused, setIsGridFocused] = useState(false);
+  const [isUsingKeyboard, setIsUsingKeyboard] = useState(false); // Draw the cursor only for keyboard play
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [showInventoryDrawer, setShowInventoryDrawer] = useState(false);
+  // Empty cell tapped once on a touch screen; tapping it again places the piece
+  const [tapPreviewCell, setTapPreviewCell] = useState<Position | null>(null);
+  const lastPointerType = useRef('mouse');
+  const levelStartedAt = useRef(Date.now()); // For the time bonus
+  const { isMobile, viewportWidth } = useMobileLayout();
+  const analysis = useAnalysis();
+  const replayRecorder = useReplayRecorder(history, () => Date.now() - levelStartedAt.current);
 
-  // Initialize the grid based on the current level
-  useEffect(() => {
-    initializeGrid();
-  }, [currentLevel]);
-
-  const initializeGrid = () => {
-    const { width, height, walls, doorPosition, inventory: levelInventory } = currentLevel;
-    const newGrid: CellType[][] = Array(height).fill(null).map(() => Array(width).fill('empty'));
-    
-    // Add walls
-    walls.forEach(wall => {
-      newGrid[wall.y][wall.x] = 'wall';
-    });
-    
-    // Add door
-    newGrid[doorPosition.y][doorPosition.x] = 'door';
-    
-    // Reset inventory
-    setInventory({ ...levelInventory });
-    
-    setGrid(newGrid);
-    setSofas([]);
-    setNextSofaId(1);
-    setScore(0);
-  };
+  const { grid, occupancy, sofas, inventory, score, level: currentLevel } = game;
+  const message = notice ?? game.message;
+  // Only the ranked campaign levels and recent dailies have a leaderboard; custom, imported and play-tested rooms don't
+  const leaderboardId = dailyDate ? getDailyLevelId(dailyDate) : isCampaignLevel ? getCampaignLevelId(levelIndex) : null;
 
-  // Check if a position is within the grid bounds
-  const isInBounds = (pos: Position): boolean => {
-    return pos.x >= 0 && pos.x < currentLevel.width && pos.y >= 0 && pos.y < currentLevel.height;
+  // Run an action through the engine and show its outcome
+  const dispatch: typeof dispatchGame = (action) => {
+    setNotice(null);
+    return dispatchGame(action);
   };
 
-  // Check if a cell is empty (can place a sofa)
-  const isCellEmpty = (pos: Position): boolean => {
-    if (!isInBounds(pos)) return false;
-    return grid[pos.y][pos.x] === 'empty';
-  };
-
-  // Get cells occupied by a sofa based on its type, position, and rotation
-  const getSofaCells = (type: SofaType, pos: Position, rotation: Rotation): Position[] => {
-    switch (type) {
-      case 'single':
-        return [pos];
-      case 'rectangular':
-        if (rotation === 0 || rotation === 180) {
-          return [pos, { x: pos.x + 1, y: pos.y }];
-        } else {
-          return [pos, { x: pos.x, y: pos.y + 1 }];
-        }
-      case 'l-shaped':
-        if (rotation === 0) {
-          return [pos, { x: pos.x + 1, y: pos.y }, { x: pos.x, y: pos.y + 1 }];
-        } else if (rotation === 90) {
-          return [pos, { x: pos.x, y: pos.y - 1 }, { x: pos.x + 1, y: pos.y }];
-        } else if (rotation === 180) {
-          return [pos, { x: pos.x - 1, y: pos.y }, { x: pos.x, y: pos.y - 1 }];
-        } else { // 270
-          return [pos, { x: pos.x - 1, y: pos.y }, { x: pos.x, y: pos.y + 1 }];
-        }
-      default:
-        return [pos];
+  // Drop a dragged piece; the engine rejects drops on occupied cells, which puts the piece back
+  const handleDrop = (dropped: SofaDrag, anchor: Position) => {
+    if (dropped.from) {
+      dispatch({ type: 'move', position: dropped.from, to: anchor, rotation: dropped.rotation });
+    } else {
+      setSelectedRotation(dropped.rotation);
+      setSelectedFlipped(dropped.flipped);
+      dispatch({
+        type: 'place',
+        sofaType: dropped.type,
+        position: anchor,
+        rotation: dropped.rotation,
+        flipped: dropped.flipped
+      });
     }
   };
+  const { drag, startDrag, enterCell, dropOn, consumeClick } = useSofaDrag(handleDrop);
 
-  // Check if a sofa can be placed at a position
-  const canPlaceSofa = (type: SofaType, pos: Position, rotation: Rotation): boolean => {
-    // Check if we have this sofa type in inventory
-    if (inventory[type] <= 0) {
-      return false;
-    }
-    
-    // Check if all cells are empty
-    const cells = getSofaCells(type, pos, rotation);
-    return cells.every(cell => isCellEmpty(cell));
+  // Long-press removes the sofa under the finger
+  const handleLongPress = (pos: Position) => {
+    if (occupancy[pos.y][pos.x] === null) return;
+    dispatch({ type: 'remove', position: pos });
+    setTapPreviewCell(null);
+    navigator.vibrate?.(30);
   };
+  const { zoom, setZoom, startPress, movePress, endPress, consumeLongPress, touchHandlers } = useTouchGestures(
+    handleLongPress,
+    (direction) => rotateSofa(direction)
+  );
 
-  // Place a sofa on the grid
-  const placeSofa = (type: SofaType, pos: Position, rotation: Rotation) => {
-    if (!canPlaceSofa(type, pos, rotation)) {
-      if (inventory[type] <= 0) {
-        setMessage(`No more ${type} sofas available in inventory!`);
-      } else {
-        setMessage("Can't place sofa here!");
-      }
-      return;
+  // Critical paths, hints and a pending tap describe a specific board, so drop them (and any analysis
+  // still working them out) when moving through history
+  useEffect(() => {
+    analysis.cancel();
+    setShowCriticalPaths(false);
+    setHint(null);
+    setNotice(null);
+    setTapPreviewCell(null);
+  }, [history.index]);
+
+  // Load the level handed over by the editor
+  useEffect(() => {
+    if (!router.isReady || !isPlaytest) return;
+    const playtestLevel = loadPlaytestLevel();
+    if (playtestLevel) {
+      setIsCampaignLevel(false);
+      setDailyDate(null);
+      startLevel(playtestLevel);
     }
-    
-    // Decrease inventory
-    setInventory({
-      ...inventory,
-      [type]: inventory[type] - 1
-    });
+  }, [router.isReady, isPlaytest]);
 
-    // Create a new sofa
-    const newSofa: SofaPiece = {
-      type,
-      position: pos,
-      rotation,
-      id: nextSofaId
+  // Read the saved game and offer to continue it; play-tests leave the save alone
+  useEffect(() => {
+    if (!router.isReady || isPlaytest) return;
+    const save = loadSave();
+    setCampaign(save.campaign);
+    setDailyResults(save.daily);
+    setLevelIndex(save.campaign.currentLevel);
+    savedBoards.current = save.boards;
+    // Rooms are built in the background, and nothing is saved until one is on the board so the
+    // starting room doesn't replace the save; if building fails, the starting room is level 1
+    const finishLoading = (started: boolean) => {
+      if (!started) setLevelIndex(0);
+      setIsSaveLoaded(true);
     };
+    if (requestedDaily) {
+      playDaily(requestedDaily).then(finishLoading);
+    } else if (save.lastBoard && save.boards[save.lastBoard]) {
+      setSavedBoard(save.boards[save.lastBoard]);
+    } else if (save.campaign.currentLevel > 0) {
+      playCampaignLevel(save.campaign.currentLevel).then(finishLoading);
+    } else {
+      setIsSaveLoaded(true);
+    }
+  }, [router.isReady, isPlaytest, requestedDaily]);
 
-    // Update the grid
-    const newGrid = [...grid.map(row => [...row])];
-    const cells = getSofaCells(type, pos, rotation);
-    
-    cells.forEach(cell => {
-      let cellType: CellType;
-      if (type === 'single') {
-        cellType = 'sofa-single';
-      } else if (type === 'rectangular') {
-        cellType = rotation === 0 || rotation === 180 ? 'sofa-rect-h' : 'sofa-rect-v';
-      } else if (type === 'l-shaped') {
-        cellType = `sofa-l-${rotation}` as CellType;
-      } else {
-        cellType = 'sofa-single'; // Fallback
-      }
-      
-      newGrid[cell.y][cell.x] = cellType;
+  // Save progress and the board after every change
+  useEffect(() => {
+    if (!isSaveLoaded || isPlaytest) return;
+    const board = saveBoard(history, isCampaignLevel ? levelIndex : null, dailyDate, Date.now() - levelStartedAt.current);
+    const slot = getBoardSlot(board.levelIndex, board.dailyDate);
+    // A solved room is no longer in progress, so it frees its slot
+    const isSolved = history.present.lastCheck?.solved === true;
+    savedBoards.current = isSolved ? discardBoard(savedBoards.current, slot) : storeBoard(savedBoards.current, board);
+    writeSave({
+      version: SAVE_VERSION,
+      campaign,
+      daily: dailyResults,
+      boards: savedBoards.current,
+      lastBoard: isSolved ? null : slot
     });
+  }, [history, campaign, dailyResults, isSaveLoaded, isPlaytest, isCampaignLevel, levelIndex, dailyDate]);
 
-    setGrid(newGrid);
-    setSofas([...sofas, newSofa]);
-    setNextSofaId(nextSofaId + 1);
-    setScore(score + cells.length); // Add points based on sofa size
-    
-    // Check if all constraints are satisfied
-    checkConstraints(newGrid);
-  };
-
-  // Remove a sofa from the grid
-  const removeSofa = (x: number, y: number) => {
-    // Find which sofa occupies this cell
-    const cellType = grid[y][x];
-    if (!cellType.startsWith('sofa')) return;
-    
-    // Find the sofa type to return to inventory
-    let sofaType: SofaType = 'single';
-    if (cellType === 'sofa-single') {
-      sofaType = 'single';
-    } else if (cellType.startsWith('sofa-rect')) {
-      sofaType = 'rectangular';
-    } else if (cellType.startsWith('sofa-l')) {
-      sofaType = 'l-shaped';
-    }
-    
-    // Create a new grid
-    const newGrid = [...grid.map(row => [...row])];
-    
-    // Find all cells with the same sofa type that are connected
-    const floodFill = (x: number, y: number, type: CellType) => {
-      if (!isInBounds({x, y}) || newGrid[y][x] !== type) return;
-      
-      newGrid[y][x] = 'empty';
-      
-      floodFill(x+1, y, type);
-      floodFill(x-1, y, type);
-      floodFill(x, y+1, type);
-      floodFill(x, y-1, type);
+  // Page-wide shortcuts: F flips the selected piece, ? shows the shortcuts help
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (drag || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        flipSofa();
+      } else if (event.key === '?') {
+        event.preventDefault();
+        setShowShortcuts(true);
+      }
     };
-    
-    floodFill(x, y, cellType);
-    
-    // Update the grid and recalculate score
-    setGrid(newGrid);
-    
-    // Remove the sofa from the sofas array
-    const removedSofas = sofas.filter(sofa => {
-      const cells = getSofaCells(sofa.type, sofa.position, sofa.rotation);
-      return cells.some(cell => grid[cell.y][cell.x] === cellType);
-    });
-    
-    const updatedSofas = sofas.filter(sofa => {
-      const cells = getSofaCells(sofa.type, sofa.position, sofa.rotation);
-      return !cells.some(cell => grid[cell.y][cell.x] === cellType);
-    });
-    
-    // Return the sofa to inventory
-    if (removedSofas.length > 0) {
-      setInventory({
-        ...inventory,
-        [sofaType]: inventory[sofaType] + 1
-      });
-    }
-    
-    setSofas(updatedSofas);
-    
-    // Recalculate score
-    let newScore = 0;
-    newGrid.forEach(row => {
-      row.forEach(cell => {
-        if (cell.startsWith('sofa')) newScore++;
-      });
-    });
-    
-    setScore(newScore);
-    setMessage("Sofa removed!");
-  };
 
-  // Check if all sofas are reachable and door is not blocked
-  const checkConstraints = (currentGrid: CellType[][]) => {
-    // Check if door is blocked
-    const { doorPosition } = currentLevel;
-    const doorNeighbors = [
-      { x: doorPosition.x + 1, y: doorPosition.y },
-      { x: doorPosition.x - 1, y: doorPosition.y },
-      { x: doorPosition.x, y: doorPosition.y + 1 },
-      { x: doorPosition.x, y: doorPosition.y - 1 }
-    ].filter(isInBounds);
-
-    // Find an empty cell adjacent to the door to start pathfinding from
-    const doorAdjacentEmpty = doorNeighbors.find(pos => 
-      isInBounds(pos) && currentGrid[pos.y][pos.x] === 'empty'
-    );
-
-    if (!doorAdjacentEmpty) {
-      setMessage("The door is blocked! Make sure there's at least one empty space next to the door.");
-      return false;
-    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-    // Find all positions that are reachable from the door using our pathfinding utility
-    const reachablePositions = findAllReachablePositions(doorAdjacentEmpty, currentGrid);
-    
-    // Group sofa cells by their type and position to check reachability for entire sofas
-    const sofaCells: Map<string, Position[]> = new Map();
-    let sofaIdCounter = 0;
-    
-    // Create a grid to track which sofa ID each cell belongs to
-    const sofaIdGrid: number[][] = Array(currentGrid.length).fill(null)
-      .map(() => Array(currentGrid[0].length).fill(-1));
-    
-    // First pass: assign IDs to each sofa using flood fill
-    for (let y = 0; y < currentGrid.length; y++) {
-      for (let x = 0; x < currentGrid[y].length; x++) {
-        if (currentGrid[y][x].startsWith('sofa') && sofaIdGrid[y][x] === -1) {
-          const sofaType = currentGrid[y][x];
-          const sofaCellsForThisSofa: Position[] = [];
-          
-          // Flood fill to find all connected cells of this sofa
-          const floodFillSofa = (fx: number, fy: number) => {
-            if (!isInBounds({x: fx, y: fy}) || 
-                !currentGrid[fy][fx].startsWith('sofa') || 
-                sofaIdGrid[fy][fx] !== -1 ||
-                currentGrid[fy][fx] !== sofaType) return;
-            
-            sofaIdGrid[fy][fx] = sofaIdCounter;
-            sofaCellsForThisSofa.push({x: fx, y: fy});
-            
-            floodFillSofa(fx+1, fy);
-            floodFillSofa(fx-1, fy);
-            floodFillSofa(fx, fy+1);
-            floodFillSofa(fx, fy-1);
-          };
-          
-          floodFillSofa(x, y);
-          sofaCells.set(`sofa-${sofaIdCounter}`, sofaCellsForThisSofa);
-          sofaIdCounter++;
-        }
-      }
-    }
-    
-    // Check if each sofa is reachable using A* pathfinding
-    let allSofasReachable = true;
-    
-    sofaCells.forEach((cells, sofaId) => {
-      let isSofaReachable = false;
-      
-      // For each sofa, check if any of its cells has an adjacent empty cell that is reachable
-      for (const cell of cells) {
-        if (isAdjacentToReachable(cell, reachablePositions, currentGrid)) {
-          // If we find an adjacent reachable cell, verify there's a path to it
-          // Find the adjacent empty cell
-          const directions = [
-            { x: 1, y: 0 },
-            { x: -1, y: 0 },
-            { x: 0, y: 1 },
-            { x: 0, y: -1 }
-          ];
-          
-          for (const dir of directions) {
-            const adjacentPos = {
-              x: cell.x + dir.x,
-              y: cell.y + dir.y
-            };
-            
-            const posKey = `${adjacentPos.x},${adjacentPos.y}`;
-            
-            if (
-              isInBounds(adjacentPos) && 
-              currentGrid[adjacentPos.y][adjacentPos.x] === 'empty' &&
-              reachablePositions.has(posKey)
-            ) {
-              // Verify there's a path from the door to this empty cell
-              const path = findPath(doorAdjacentEmpty, adjacentPos, currentGrid);
-              if (path !== null) {
-                isSofaReachable = true;
-                break;
-              }
-            }
-          }
-        }
-        
-        if (isSofaReachable) break;
-      }
-      
-      if (!isSofaReachable) {
-        // Find a representative cell to report in the error message
-        const reportCell = cells[0];
-        setMessage(`Sofa at position (${reportCell.x}, ${reportCell.y}) is not reachable! Make sure there's a path to each sofa.`);
-        allSofasReachable = false;
-      }
-    });
-    
-    if (!allSofasReachable) {
-      return false;
-    }
-    
-    setMessage("Good job! Keep placing sofas to fill the room.");
-    return true;
-  };
+  // Ghost piece cells for a placement hint, and highlighted cells for a removal hint
+  const hintGhostCells = new Set<string>();
+  const hintRemoveCells = new Set<string>();
+  if (hint?.kind === 'place') {
+    const { type, position, rotation, flipped } = hint.piece;
+    getSofaCells(type, position, rotation, flipped).forEach(cell => hintGhostCells.add(`${cell.x},${cell.y}`));
+  } else if (hint?.kind === 'remove') {
+    const { type, position, rotation, flipped } = hint.sofa;
+    getSofaCells(type, position, rotation, flipped).forEach(cell => hintRemoveCells.add(`${cell.x},${cell.y}`));
+  }
+
+  // Fit the room to the phone screen, then scale it by the pinch zoom
+  const mobileCellPx = Math.round(zoom * Math.max(
+    MIN_MOBILE_CELL_PX,
+    Math.min(MAX_MOBILE_CELL_PX, Math.floor((viewportWidth - 64) / currentLevel.width))
+  ));
+
+  // Preview the dragged piece, or the selected piece under the pointer, before it is placed
+  let previewPiece: Omit<SofaPiece, 'id'> | null = null;
+  let preview: PlacementPreview | null = null;
+  if (drag?.moved && cursor) {
+    const anchor = getDragAnchor(drag, cursor);
+    previewPiece = { type: drag.type, position: anchor, rotation: drag.rotation, flipped: drag.flipped };
+    preview = drag.from
+      ? previewMove(game, drag.from, anchor, drag.rotation)
+      : previewPlacement(game, drag.type, anchor, drag.rotation, drag.flipped);
+  } else if (!drag && cursor && !isRemoving && grid[cursor.y]?.[cursor.x] === 'empty') {
+    previewPiece = { type: selectedSofaType, position: cursor, rotation: selectedRotation, flipped: selectedFlipped };
+    preview = previewPlacement(game, selectedSofaType, cursor, selectedRotation, selectedFlipped);
+  }
+  const previewCells = new Set(preview?.cells.map(cell => `${cell.x},${cell.y}`));
+  const draggedSofaId = drag?.moved && drag.from ? occupancy[drag.from.y][drag.from.x] : null;
 
   // Check the solution
   const checkSolution = () => {
-    // Check if all constraints are satisfied
-    if (!checkConstraints(grid)) {
+    const action: GameAction = { type: 'check', elapsedMs: Date.now() - levelStartedAt.current };
+    dispatch(action);
+    // Nothing else changed the board in this event, so the shown state checks the same
+    const next = gameReducer(game, action);
+
+    if (!next.lastCheck) {
       setShowCriticalPaths(false);
       setCriticalPathCells(new Set());
       return; // Constraints not satisfied, don't proceed
     }
-    
-    // Identify critical paths - empty cells necessary for reaching sofas
-    const criticalPaths = identifyCriticalPaths(grid, currentLevel.doorPosition);
-    setCriticalPathCells(criticalPaths);
-    setShowCriticalPaths(true);
-    
-    // Count empty cells that are not part of critical paths
-    let fillableEmptyCells = 0;
-    
-    for (let y = 0; y < grid.length; y++) {
-      for (let x = 0; x < grid[y].length; x++) {
-        if (grid[y][x] === 'empty') {
-          const posKey = `${x},${y}`;
-          if (!criticalPaths.has(posKey)) {
-            fillableEmptyCells++;
-          }
-        }
-      }
-    }
 
-    if (fillableEmptyCells <= 3 || (inventory.single === 0 && inventory.rectangular === 0 && inventory['l-shaped'] === 0)) { // Allow a few empty cells
+    setCriticalPathCells(new Set(next.lastCheck.criticalPaths));
+
+    if (next.lastCheck.solved) {
+      const result = next.lastCheck.result;
+      if (isCampaignLevel && result) {
+        setCampaign(current => recordLevelResult(current, levelIndex, result));
+      }
+      if (dailyDate && result) {
+        setDailyResults(current => recordDailyResult(current, dailyDate, result));
+      }
       setShowSuccessDialog(true);
       setShowCriticalPaths(false); // Hide critical paths when showing success dialog
     } else {
-      setMessage(`You can still place more sofas! There are ${fillableEmptyCells} fillable spaces left. Critical paths are highlighted.`);
+      setShowCriticalPaths(true);
     }
   };
   
+  // Analysis that fails (rather than being cancelled) ends in a toast instead of an unhandled rejection
+  const reportAnalysisError = (title: string, error: unknown) => {
+    toast({ variant: 'destructive', title, description: (error as Error).message });
+  };
+
+  // Ask the solver for the next move, in the background
+  const showHint = async () => {
+    let nextHint;
+    try {
+      nextHint = await analysis.run('Looking for a hint', { kind: 'hint', state: game });
+    } catch (error) {
+      reportAnalysisError("Couldn't find a hint", error);
+      return;
+    }
+    if (!nextHint) return;
+    setHint(nextHint);
+    setNotice(nextHint.message);
+  };
+
   // Toggle critical paths visibility
-  const toggleCriticalPaths = () => {
+  const toggleCriticalPaths = async () => {
     if (showCriticalPaths) {
       setShowCriticalPaths(false);
     } else {
-      const criticalPaths = identifyCriticalPaths(grid, currentLevel.doorPosition);
-      setCriticalPathCells(criticalPaths);
+      let cells;
+      try {
+        cells = await analysis.run('Finding critical paths', { kind: 'critical-paths', state: game });
+      } catch (error) {
+        reportAnalysisError("Couldn't find the critical paths", error);
+        return;
+      }
+      if (!cells) return;
+      setCriticalPathCells(new Set(cells));
       setShowCriticalPaths(true);
     }
   };
 
-  // Rotate the selected sofa
-  const rotateSofa = () => {
-    // Rotate 90 degrees clockwise
-    const newRotation = (selectedRotation + 90) % 360 as Rotation;
-    setSelectedRotation(newRotation);
+  // Rotate the selected sofa to its next distinct footprint, clockwise unless direction is -1
+  const rotateSofa = (direction: 1 | -1 = 1) => {
+    setSelectedRotation(direction === 1
+      ? getNextRotation(selectedSofaType, selectedRotation)
+      : getPreviousRotation(selectedSofaType, selectedRotation));
+  };
+
+  // Switch the selected piece to its other handedness
+  const flipSofa = () => {
+    if (isChiral(selectedSofaType)) {
+      setSelectedFlipped(!selectedFlipped);
+    }
   };
 
-  // Handle cell click to place or remove a sofa
+  // Select a piece, switching handedness if only the other one is left
+  // Returns the selected handedness, or null if none of the piece is left
+  const selectSofa = (type: SofaType): boolean | null => {
+    let flipped = selectedSofaType === type ? selectedFlipped : false;
+    if (getInventoryCount(inventory, type, flipped) === 0) {
+      if (getInventoryCount(inventory, type, !flipped) === 0) {
+        setNotice(`No more ${getPieceName(type).toLowerCase()} sofas available!`);
+        return null;
+      }
+      flipped = !flipped;
+    }
+    setSelectedFlipped(flipped);
+    setSelectedSofaType(type);
+    setIsRemoving(false);
+    return flipped;
+  };
+
+  // Pick a piece up from the inventory
+  const startInventoryDrag = (type: SofaType) => {
+    const flipped = selectSofa(type);
+    if (flipped === null) return;
+    startDrag({ type, rotation: selectedRotation, flipped, from: null, grabbedCell: 0 });
+  };
+
+  // Pick up a placed sofa by the cell under the pointer
+  const startBoardDrag = (x: number, y: number) => {
+    const sofa = findSofaAt(game, { x, y });
+    if (!sofa || isRemoving) return;
+    const grabbedCell = getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped)
+      .findIndex(cell => cell.x === x && cell.y === y);
+    startDrag({ type: sofa.type, rotation: sofa.rotation, flipped: sofa.flipped, from: { x, y }, grabbedCell });
+  };
+
+  // Handle cell click to place, rotate or remove a sofa
   const handleCellClick = (x: number, y: number) => {
     if (isRemoving) {
-      if (grid[y][x].startsWith('sofa')) {
-        removeSofa(x, y);
+      if (occupancy[y][x] !== null) {
+        dispatch({ type: 'remove', position: { x, y } });
       }
     } else if (grid[y][x] === 'empty') {
-      placeSofa(selectedSofaType, { x, y }, selectedRotation);
+      dispatch({
+        type: 'place',
+        sofaType: selectedSofaType,
+        position: { x, y },
+        rotation: selectedRotation,
+        flipped: selectedFlipped
+      });
+    } else if (occupancy[y][x] !== null) {
+      dispatch({ type: 'rotate', position: { x, y } });
+    }
+  };
+
+  // A tap on an empty cell previews the piece there, and a second tap on the same cell places it
+  const handleCellTap = (x: number, y: number) => {
+    const isSecondTap = tapPreviewCell?.x === x && tapPreviewCell?.y === y;
+    if (!isRemoving && grid[y][x] === 'empty' && !isSecondTap) {
+      setTapPreviewCell({ x, y });
+      setCursor({ x, y });
+      return;
+    }
+    setTapPreviewCell(null);
+    setCursor(null);
+    handleCellClick(x, y);
+  };
+
+  // Keyboard play on the focused grid
+  const handleGridKeyDown = (event: React.KeyboardEvent) => {
+    if (drag || event.ctrlKey || event.metaKey || event.altKey) return;
+    const { width, height } = currentLevel;
+    const current = cursor ?? { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+    const arrowMoves: Record<string, Position> = {
+      ArrowLeft: { x: -1, y: 0 },
+      ArrowRight: { x: 1, y: 0 },
+      ArrowUp: { x: 0, y: -1 },
+      ArrowDown: { x: 0, y: 1 }
+    };
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+    if (arrowMoves[key]) {
+      setCursor({
+        x: Math.max(0, Math.min(width - 1, current.x + arrowMoves[key].x)),
+        y: Math.max(0, Math.min(height - 1, current.y + arrowMoves[key].y))
+      });
+    } else if (/^[1-9]$/.test(key)) {
+      const piece = getInventoryPieces(currentLevel.inventory)[Number(key) - 1];
+      if (piece) selectSofa(piece.id);
+    } else if (key === 'r') {
+      rotateSofa();
+    } else if (key === 'Enter' || key === ' ') {
+      handleCellClick(current.x, current.y);
+    } else if (key === 'Delete' || key === 'Backspace') {
+      if (occupancy[current.y][current.x] !== null) {
+        dispatch({ type: 'remove', position: current });
+      }
+    } else if (key === 'c') {
+      checkSolution();
+    } else {
+      return;
+    }
+    event.preventDefault();
+    setIsUsingKeyboard(true);
+  };
+
+  // Drop what was shown over the previous board, and any analysis still working on it
+  const clearBoardView = () => {
+    analysis.cancel();
+    setCursor(null);
+    setTapPreviewCell(null);
+    setZoom(MIN_ZOOM);
+    setIsRemoving(false);
+    setHint(null);
+    setShowCriticalPaths(false);
+  };
+
+  // Start a level from scratch
+  const startLevel = (level: Level) => {
+    clearBoardView();
+    dispatch({ type: 'reset', level });
+    levelStartedAt.current = Date.now();
+    // Keep the selected piece if the new room has it, otherwise pick the first one it offers
+    if (getInventoryCount(level.inventory, selectedSofaType, selectedFlipped) === 0) {
+      const firstPiece = getInventoryPieces(level.inventory).find(piece => level.inventory[piece.id] > 0);
+      if (firstPiece) {
+        setSelectedSofaType(firstPiece.id);
+        setSelectedRotation(0);
+        setSelectedFlipped(false);
+      }
     }
   };
 
   // Reset the game
   const resetGame = () => {
-    initializeGrid();
-    setMessage('Place sofas in the room. Make sure all sofas are reachable and the door is not blocked.');
-    setIsRemoving(false);
+    startLevel(currentLevel);
   };
 
-  // Go to next level
+  // Build a campaign or daily room; past the hand-made levels they are generated and solved, so this
+  // happens in the analysis worker. Resolves with null if it failed or was cancelled.
+  const buildLevel = async (task: { kind: 'campaign-level'; levelIndex: number } | { kind: 'daily-level'; dateKey: string }) => {
+    try {
+      return await analysis.run('Building the room', task);
+    } catch (error) {
+      reportAnalysisError("Couldn't build the room", error);
+      return null;
+    }
+  };
+
+  // Pick up the unfinished board saved in a slot; returns whether there was one to restore
+  const resumeSavedBoard = (slot: string) => {
+    const board = savedBoards.current[slot];
+    const restored = board ? restoreBoard(board) : null;
+    if (!restored) return false;
+    clearBoardView();
+    resumeBoard(restored, board);
+    return true;
+  };
+
+  // Continue a campaign level where it was left, or start it; resolves with whether it started
+  const playCampaignLevel = async (index: number) => {
+    if (!resumeSavedBoard(getBoardSlot(index, null))) {
+      const level = await buildLevel({ kind: 'campaign-level', levelIndex: index });
+      if (!level) return false;
+      setLevelIndex(index);
+      setIsCampaignLevel(true);
+      setDailyDate(null);
+      startLevel(level);
+    }
+    setCampaign(current => ({ ...current, currentLevel: index }));
+    return true;
+  };
+
+  // Go to next level, or back to the campaign after a custom room
   const goToNextLevel = () => {
-    const nextLevelIndex = levelIndex + 1;
-    setLevelIndex(nextLevelIndex);
-    setCurrentLevel(getLevel(nextLevelIndex));
+    playCampaignLevel(isCampaignLevel ? levelIndex + 1 : levelIndex);
     setShowSuccessDialog(false);
   };
+
+  const selectLevel = (index: number) => {
+    playCampaignLevel(index);
+    setShowLevelSelect(false);
+    setIsSaveLoaded(true);
+  };
+
+  // Continue the daily challenge of a date where it was left, or start it; resolves with whether it started
+  const playDaily = async (dateKey: string) => {
+    if (resumeSavedBoard(getBoardSlot(null, dateKey))) return true;
+    const level = await buildLevel({ kind: 'daily-level', dateKey });
+    if (!level) return false;
+    setIsCampaignLevel(false);
+    setDailyDate(dateKey);
+    startLevel(level);
+    return true;
+  };
+
+  // Show a restored timeline and carry on with its level
+  const resumeBoard = (restored: GameHistory, board: SavedBoard) => {
+    loadHistory(restored);
+    setIsCampaignLevel(board.levelIndex !== null);
+    if (board.levelIndex !== null) setLevelIndex(board.levelIndex);
+    setDailyDate(board.dailyDate);
+    levelStartedAt.current = Date.now() - board.elapsedMs;
+  };
+
+  // Watch the moves so far in the replay viewer
+  const watchReplay = () => {
+    saveReplayForViewer(replayRecorder.getReplay());
+    router.push("/replay");
+  };
+
+  const downloadReplay = () => {
+    const replay = replayRecorder.getReplay();
+    downloadTextFile(replayFileName(replay.level), encodeReplay(replay), 'text/plain');
+  };
+
+  // Pick up the saved board where it was left
+  const continueSavedGame = () => {
+    if (!savedBoard) return;
+    const restored = restoreBoard(savedBoard);
+    setSavedBoard(null);
+    if (restored) {
+      resumeBoard(restored, savedBoard);
+      setIsSaveLoaded(true);
+      return;
+    }
+    playCampaignLevel(campaign.currentLevel).then(started => {
+      if (!started) setLevelIndex(0);
+      setNotice("Your saved room couldn't be restored, so you're starting fresh.");
+      setIsSaveLoaded(true);
+    });
+  };
+
+  // Leave the saved board and choose a level instead
+  const skipSavedGame = () => {
+    setSavedBoard(null);
+    setShowLevelSelect(true);
+  };
   
+  // Imported rooms are played outside the campaign
+  const playImportedLevel = (level: Level) => {
+    setIsCampaignLevel(false);
+    setDailyDate(null);
+    startLevel(level);
+  };
+
   // Generate a custom level
-  const generateCustomLevel = () => {
-    const customLevel = generateLevel(customComplexity, 0);
-    setCurrentLevel(customLevel);
+  // Generation solves every candidate room, so it runs in the analysis worker
+  const generateCustomLevel = async () => {
+    const complexity = customComplexity;
+    const seed = parseSeed(customSeed) ?? createSeed();
+    const version = customGeneratorVersion;
     setShowCustomLevelDialog(false);
-    resetGame();
+
+    let level;
+    try {
+      level = await analysis.run('Generating a room', { kind: 'generate', complexity, levelNumber: 0, seed, version });
+    } catch (error) {
+      reportAnalysisError("Couldn't generate a room", error);
+      return;
+    }
+    if (!level) return;
+
+    setIsCampaignLevel(false);
+    setDailyDate(null);
+    startLevel(level);
   };
 
   return (
@@ -529,62 +656,79 @@ export default function Home() {
                         </CardDescription>
                       </div>
                       <Badge variant="outline" className="text-lg p-2" style={{ whiteSpace: "nowrap" }}>
-                        Score: {score}
+                        Score: {score}{currentLevel.par !== undefined && ` / par ${currentLevel.par}`}
                       </Badge>
                     </div>
-                    <div className="text-sm font-medium mt-2">{currentLevel.name}</div>
+                    <div className="flex justify-between items-center gap-2 mt-2">
+                      <div className="text-sm font-medium">
+                        {currentLevel.name}
+                        {isCampaignLevel && campaign.levels[levelIndex] && (
+                          <span className="ml-2 text-muted-foreground">
+                            Best {campaign.levels[levelIndex].bestScore} {'★'.repeat(campaign.levels[levelIndex].stars)}
+                          </span>
+                        )}
+                      </div>
+                      {!isPlaytest && (
+                        <Button size="sm" variant="outline" onClick={() => setShowLevelSelect(true)}>Level Select</Button>
+                      )}
+                    </div>
+                    <div className="text-sm">Goal: {describeObjective(getObjective(currentLevel))}</div>
+                    {currentLevel.seed !== undefined && (
+                      <div className="text-xs text-muted-foreground">
+                        Seed: {currentLevel.seed} (generator v{currentLevel.generatorVersion})
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent>
                     {/* Game message */}
                     <div className="mb-4 text-center p-2 bg-muted rounded-md w-full">
                       {message}
                     </div>
+                    {/* Background analysis */}
+                    {analysis.running && (
+                      <div aria-live="polite" className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                        <span>
+                          {analysis.running.label}...
+                          {analysis.running.progress &&
+                            ` ${analysis.running.progress.nodes.toLocaleString()} arrangements tried, best ${analysis.running.progress.bestScore}`}
+                        </span>
+                        <Button size="sm" variant="outline" onClick={analysis.cancel}>Cancel</Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
-                {/* Inventory Card */}
-                <Card className="mb-6">
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-lg">Inventory</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-3 gap-3">
-                      {availableSofaTypes.map((type) => (
-                        <div 
-                          key={type} 
-                          className={`flex flex-col items-center p-2 rounded-md border-2 ${
-                            selectedSofaType === type && !isRemoving 
-                              ? 'border-primary bg-primary/10' 
-                              : 'border-muted'
-                          }`}
-                        >
-                          <SofaSelectionButton
-                            type={type}
-                            rotation={selectedSofaType === type ? selectedRotation : 0}
-                            selected={selectedSofaType === type && !isRemoving}
-                            onRotate={selectedSofaType === type ? rotateSofa : undefined}
-                            onClick={() => { 
-                              if (inventory[type] > 0) {
-                                setSelectedSofaType(type); 
-                                setIsRemoving(false);
-                              } else {
-                                setMessage(`No more ${type} sofas available!`);
-                              }
-                            }}
-                          />
-                          <div className="mt-2 text-center">
-                            <Badge 
-                              variant={inventory[type] > 0 ? "default" : "outline"} 
-                              className="w-full"
-                            >
-                              {inventory[type]} left
-                            </Badge>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
+                {/* Inventory Card; phones get it in a drawer instead */}
+                {!isMobile && (
+                  <Card className="mb-6">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">Inventory</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <InventoryPanel
+                        levelInventory={currentLevel.inventory}
+                        inventory={inventory}
+                        selectedSofaType={selectedSofaType}
+                        selectedRotation={selectedRotation}
+                        selectedFlipped={selectedFlipped}
+                        isRemoving={isRemoving}
+                        onSelect={selectSofa}
+                        onRotate={rotateSofa}
+                        onPickUp={startInventoryDrag}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* History Card */}
+                <HistoryPanel
+                  history={history}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onJump={jumpTo}
+                />
 
                 {/* Controls Card */}
                 <Card className="mb-6">
@@ -593,19 +737,33 @@ export default function Home() {
                   </CardHeader>
                   <CardContent className="space-y-4">
                     {/* Rotation control */}
-                    {!isRemoving && (selectedSofaType === 'rectangular' || selectedSofaType === 'l-shaped') && (
+                    {!isRemoving && (getPiece(selectedSofaType)?.rotations.length ?? 1) > 1 && (
                       <div className="flex items-center justify-between">
                         <span>Rotation: {selectedRotation}°</span>
                         <Button 
                           size="sm" 
                           variant="outline" 
-                          onClick={rotateSofa}
+                          onClick={() => rotateSofa()}
                         >
                           Rotate
                         </Button>
                       </div>
                     )}
                     
+                    {/* Flip control for pieces with two handednesses */}
+                    {!isRemoving && isChiral(selectedSofaType) && (
+                      <div className="flex items-center justify-between">
+                        <span>Handedness: {selectedFlipped ? 'Flipped' : 'Standard'}</span>
+                        <Button 
+                          size="sm" 
+                          variant="outline" 
+                          onClick={flipSofa}
+                        >
+                          Flip (F)
+                        </Button>
+                      </div>
+                    )}
+
                     {/* Remove sofa toggle */}
                     <div className="flex items-center justify-between">
                       <span>Remove Mode:</span>
@@ -618,6 +776,38 @@ export default function Home() {
                       </Button>
                     </div>
                     
+                    {/* Level import/export */}
+                    <LevelFileControls level={currentLevel} onImport={playImportedLevel} />
+
+                    {/* Replay of the moves so far */}
+                    <div className="flex items-center justify-between">
+                      <span>Replay:</span>
+                      <div className="flex gap-2">
+                        <Button variant="outline" onClick={watchReplay} size="sm">
+                          Watch
+                        </Button>
+                        <Button variant="outline" onClick={downloadReplay} size="sm">
+                          Download
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Solver hint */}
+                    <div className="flex items-center justify-between">
+                      <span>Stuck?</span>
+                      <Button variant={hint ? "default" : "outline"} onClick={showHint} disabled={analysis.running !== null} size="sm">
+                        Hint
+                      </Button>
+                    </div>
+
+                    {/* Keyboard help */}
+                    <div className="flex items-center justify-between">
+                      <span>Keyboard:</span>
+                      <Button variant="outline" onClick={() => setShowShortcuts(true)} size="sm">
+                        Shortcuts (?)
+                      </Button>
+                    </div>
+
                     {/* Critical paths toggle */}
                     {sofas.length > 0 && (
                       <div className="flex items-center justify-between">
@@ -625,6 +815,7 @@ export default function Home() {
                         <Button 
                           variant={showCriticalPaths ? "default" : "outline"} 
                           onClick={toggleCriticalPaths}
+                          disabled={analysis.running !== null}
                           size="sm"
                         >
                           {showCriticalPaths ? "Hide" : "Show"}
@@ -634,53 +825,168 @@ export default function Home() {
                   </CardContent>
                   <CardFooter className="flex justify-between border-t pt-4">
                     <Button variant="outline" onClick={resetGame}>Reset</Button>
-                    <Button variant="outline" onClick={() => setShowCustomLevelDialog(true)}>Custom Level</Button>
+                    {isPlaytest ? (
+                      <Button variant="outline" onClick={() => router.push("/editor")}>Back to Editor</Button>
+                    ) : (
+                      <Button variant="outline" onClick={() => setShowCustomLevelDialog(true)}>Custom Level</Button>
+                    )}
                     <Button onClick={checkSolution}>Check Solution</Button>
                   </CardFooter>
                 </Card>
               </div>
 
-              {/* Game Grid Column */}
-              <div className="lg:w-2/3">
+              {/* Game Grid Column, above the controls on phones */}
+              <div className={`lg:w-2/3 ${isMobile ? 'order-first' : ''}`}>
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-lg">Room Layout</CardTitle>
+                    <div className="flex justify-between items-center">
+                      <CardTitle className="text-lg">Room Layout</CardTitle>
+                      {zoom > MIN_ZOOM && (
+                        <Button size="sm" variant="outline" onClick={() => setZoom(MIN_ZOOM)}>
+                          Reset zoom ({Math.round(zoom * 100)}%)
+                        </Button>
+                      )}
+                    </div>
                     <CardDescription>
-                      Click on an empty cell to place the selected sofa
+                      {isMobile ? (
+                        <>
+                          Tap an empty cell to preview the selected sofa and tap it again to place it.
+                          Twist two fingers to rotate, pinch to zoom and long-press a sofa to remove it.
+                        </>
+                      ) : (
+                        <>
+                          Click on an empty cell to place the selected sofa, or on a placed sofa to rotate it.
+                          Drag sofas from the inventory or around the room, pressing R to rotate while dragging.
+                          The room can also be played with the keyboard: press ? for shortcuts.
+                        </>
+                      )}
                     </CardDescription>
                   </CardHeader>
-                  <CardContent className="flex justify-center">
-                    <div 
-                      className="grid gap-1 border-4 border-gray-800 p-1 bg-gray-200" 
-                      style={{ 
-                        gridTemplateColumns: `repeat(${currentLevel.width}, minmax(30px, 45px))`,
-                        gridTemplateRows: `repeat(${currentLevel.height}, minmax(30px, 45px))`
-                      }}
+                  <CardContent>
+                    {/* Scrolls when pinch-zoomed; the browser pans with one finger while two-finger gestures are ours */}
+                    <div
+                      className="max-w-full overflow-auto"
+                      style={{ touchAction: 'pan-x pan-y' }}
+                      {...touchHandlers}
                     >
-                      {grid.map((row, y) => 
-                        row.map((cell, x) => {
-                          const posKey = `${x},${y}`;
-                          const isCriticalPath = showCriticalPaths && cell === 'empty' && criticalPathCells.has(posKey);
-                          
-                          return (
-                            <div 
-                              key={`${x}-${y}`}
-                              className={`aspect-square flex items-center justify-center cursor-pointer ${
-                                cell === 'empty' ? (isCriticalPath ? 'bg-blue-200 hover:bg-blue-300' : 'bg-gray-100 hover:bg-gray-200') : 
-                                cell === 'wall' ? 'bg-gray-800' : 
-                                cell === 'door' ? 'bg-yellow-500' : 
-                                cell.startsWith('sofa') ? (isRemoving ? 'hover:bg-red-300' : '') : ''
-                              }`}
-                              onClick={() => handleCellClick(x, y)}
-                            >
-                              {cell !== 'empty' && <SofaRenderer type={cell} />}
-                            </div>
-                          );
-                        })
-                      )}
+                      <RoomGrid
+                        width={currentLevel.width}
+                        height={currentLevel.height}
+                        cellSize={isMobile ? `${mobileCellPx}px` : undefined}
+                        className="focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400"
+                        tabIndex={0}
+                        aria-label="Room grid. Use the arrow keys to move, Enter to place and ? for all shortcuts."
+                        onKeyDown={handleGridKeyDown}
+                        onFocus={(e) => {
+                          setIsGridFocused(true);
+                          if (e.currentTarget.matches(':focus-visible')) setIsUsingKeyboard(true);
+                          if (!cursor) setCursor({ x: Math.floor(currentLevel.width / 2), y: Math.floor(currentLevel.height / 2) });
+                        }}
+                        onBlur={() => setIsGridFocused(false)}
+                        onMouseLeave={() => {
+                          // Keep the keyboard cursor when the mouse wanders off a focused grid
+                          if (!isGridFocused) setCursor(null);
+                        }}
+                        onPointerMove={movePress}
+                        onPointerUp={endPress}
+                        onPointerCancel={endPress}
+                      >
+                        {grid.map((row, y) => 
+                          row.map((cell, x) => {
+                            const posKey = `${x},${y}`;
+                            const isCriticalPath = showCriticalPaths && cell === 'empty' && criticalPathCells.has(posKey);
+                            const sofaId = occupancy[y][x];
+                            const sofa = sofaId !== null ? findSofaAt(game, { x, y }) : undefined;
+                            const isHoveredSofa = isRemoving && sofaId !== null && sofaId === hoveredSofaId;
+                            const isPreview = previewCells.has(posKey);
+                            const isDragged = sofaId !== null && sofaId === draggedSofaId;
+                            // Cells the dragged sofa is leaving can show it in its new spot
+                            const showsPreview = isPreview && (cell === 'empty' || isDragged);
+                            const isGhost = cell === 'empty' && hintGhostCells.has(posKey) && !isPreview;
+                            const isCursor = isGridFocused && isUsingKeyboard && cursor?.x === x && cursor?.y === y;
+                            
+                            return (
+                              <RoomCell 
+                                key={`${x}-${y}`}
+                                cell={cell}
+                                x={x}
+                                y={y}
+                                sofa={showsPreview ? undefined : sofa}
+                                floorClassName={isCriticalPath ? 'bg-blue-200 hover:bg-blue-300' : 'bg-gray-100 hover:bg-gray-200'}
+                                sofaClassName={isHoveredSofa ? 'opacity-50' : isDragged ? 'opacity-30' : ''}
+                                className={`cursor-pointer ${cell === 'sofa' && isHoveredSofa ? 'bg-red-300' : ''} ${
+                                  preview && isPreview ? previewCellClasses[preview.status] : ''
+                                } ${isGhost ? 'outline-dashed outline-2 outline-green-600' : ''} ${
+                                  hintRemoveCells.has(posKey) ? 'ring-2 ring-inset ring-red-500' : ''
+                                } ${isCursor ? 'relative after:absolute after:inset-0 after:border-2 after:border-blue-700 after:pointer-events-none' : ''}`}
+                                data-sofa-id={sofaId ?? undefined}
+                                onClick={() => {
+                                  if (consumeClick() || consumeLongPress()) return;
+                                  if (lastPointerType.current === 'touch') {
+                                    handleCellTap(x, y);
+                                  } else {
+                                    handleCellClick(x, y);
+                                  }
+                                }}
+                                onPointerDown={(e) => {
+                                  lastPointerType.current = e.pointerType;
+                                  startPress({ x, y }, e);
+                                  // Let touch pointers reach the cells they move over
+                                  if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+                                    e.currentTarget.releasePointerCapture(e.pointerId);
+                                  }
+                                  startBoardDrag(x, y);
+                                }}
+                                onPointerUp={() => dropOn({ x, y })}
+                                onPointerEnter={(e) => {
+                                  setHoveredSofaId(sofaId);
+                                  enterCell({ x, y });
+                                  // A finger has no hover, so touch previews follow taps instead
+                                  if (e.pointerType === 'touch' && !drag) return;
+                                  setCursor({ x, y });
+                                  setIsUsingKeyboard(false);
+                                }}
+                                onMouseLeave={() => setHoveredSofaId(null)}
+                              >
+                                {previewPiece && showsPreview && (
+                                  <div className="w-full h-full opacity-50 pointer-events-none">
+                                    <PieceArtwork
+                                      type={previewPiece.type}
+                                      position={previewPiece.position}
+                                      rotation={previewPiece.rotation}
+                                      flipped={previewPiece.flipped}
+                                      focus={{ x, y }}
+                                    />
+                                  </div>
+                                )}
+                                {isGhost && hint?.kind === 'place' && (
+                                  <div className="w-full h-full opacity-40 pointer-events-none">
+                                    <PieceArtwork
+                                      type={hint.piece.type}
+                                      position={hint.piece.position}
+                                      rotation={hint.piece.rotation}
+                                      flipped={hint.piece.flipped}
+                                      focus={{ x, y }}
+                                    />
+                                  </div>
+                                )}
+                              </RoomCell>
+                            );
+                          })
+                        )}
+                      </RoomGrid>
                     </div>
                   </CardContent>
-                  <CardFooter className="pt-0">
+                  <CardFooter className="pt-0 flex-col gap-2">
+                    {/* Why the previewed placement is blocked or unsafe */}
+                    <div aria-live="polite" className={`w-full min-h-5 text-center text-sm ${
+                      preview?.status === 'blocked' ? 'text-red-700' : 'text-amber-700'
+                    }`}>
+                      {preview && preview.status !== 'valid' && preview.diagnostics[0]?.message}
+                      {preview?.status === 'valid' && tapPreviewCell && (
+                        <span className="text-green-700">Tap again to place</span>
+                      )}
+                    </div>
                     <div className="w-full text-center text-sm text-muted-foreground">
                       <p>Legend: <span className="inline-block w-3 h-3 bg-yellow-500 mx-1"></span> Door 
                       <span className="inline-block w-3 h-3 bg-gray-800 mx-1 ml-2"></span> Wall
@@ -694,27 +1000,110 @@ export default function Home() {
             </div>
           </div>
         </main>
+
+        {/* Phone toolbar: inventory drawer, rotate and check within thumb reach */}
+        {isMobile && (
+          <div className="sticky bottom-0 z-40 flex gap-2 border-t bg-background p-3">
+            <Button variant="outline" className="flex-1" onClick={() => setShowInventoryDrawer(true)}>
+              {getPieceName(selectedSofaType, selectedFlipped)} ({getInventoryCount(inventory, selectedSofaType, selectedFlipped)} left)
+            </Button>
+            <Button variant="outline" onClick={() => rotateSofa()}>Rotate</Button>
+            <Button onClick={checkSolution}>Check</Button>
+          </div>
+        )}
       </div>
 
+      {/* Inventory drawer for phones */}
+      <Drawer open={isMobile && showInventoryDrawer} onOpenChange={setShowInventoryDrawer}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>Inventory</DrawerTitle>
+            <DrawerDescription>Pick a sofa, then tap the room twice to place it.</DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4">
+            <InventoryPanel
+              levelInventory={currentLevel.inventory}
+              inventory={inventory}
+              selectedSofaType={selectedSofaType}
+              selectedRotation={selectedRotation}
+              selectedFlipped={selectedFlipped}
+              isRemoving={isRemoving}
+              onSelect={(type) => {
+                if (selectSofa(type) !== null) setShowInventoryDrawer(false);
+              }}
+              onRotate={rotateSofa}
+            />
+          </div>
+          <DrawerFooter className="flex-row justify-end">
+            {isChiral(selectedSofaType) && (
+              <Button variant="outline" onClick={flipSofa}>Flip</Button>
+            )}
+            <Button variant="outline" onClick={() => setShowInventoryDrawer(false)}>Done</Button>
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+
+      <ShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
+
       {/* Success Dialog */}
       <Dialog open={showSuccessDialog} onOpenChange={setShowSuccessDialog}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Level Complete!</DialogTitle>
             <DialogDescription>
-              Congratulations! You've successfully arranged the sofas in this room.
+              Congratulations! You&apos;ve successfully arranged the sofas in this room.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
-            <p className="text-center text-xl">Your score: {score} points</p>
+            {game.lastCheck?.result ? (
+              <ScoreBreakdown result={game.lastCheck.result} />
+            ) : (
+              <p className="text-center text-xl">Your score: {score} points</p>
+            )}
           </div>
-          <DialogFooter>
+          {leaderboardId && game.lastCheck?.solved && <LeaderboardPanel levelId={leaderboardId} sofas={sofas} />}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={watchReplay}>Watch Replay</Button>
+            {dailyDate && (
+              <Button variant="outline" onClick={() => router.push("/daily")}>Daily Calendar</Button>
+            )}
             <Button onClick={goToNextLevel}>
-              Next Level
+              {isCampaignLevel ? "Next Level" : "Back to Campaign"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Continue Dialog */}
+      <Dialog open={savedBoard !== null} onOpenChange={(open) => { if (!open) skipSavedGame(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Welcome Back!</DialogTitle>
+            <DialogDescription>
+              {savedBoard?.dailyDate
+                ? `You were in the middle of the daily room for ${savedBoard.dailyDate}.`
+                : savedBoard?.levelIndex !== null && savedBoard?.levelIndex !== undefined
+                  ? `You were in the middle of Level ${savedBoard.levelIndex + 1}.`
+                  : 'You were in the middle of a custom room.'}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={skipSavedGame}>Level Select</Button>
+            <Button onClick={continueSavedGame}>Continue</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <LevelSelectDialog
+        open={showLevelSelect}
+        onOpenChange={(open) => {
+          setShowLevelSelect(open);
+          if (!open) setIsSaveLoaded(true);
+        }}
+        campaign={campaign}
+        currentLevel={isCampaignLevel ? levelIndex : null}
+        onSelect={selectLevel}
+      />
       
       {/* Custom Level Dialog */}
       <Dialog open={showCustomLevelDialog} onOpenChange={setShowCustomLevelDialog}>
@@ -737,6 +1126,35 @@ export default function Home() {
               step={10}
               onValueChange={(value) => setCustomComplexity(value[0] / 100)}
             />
+            <div className="space-y-2">
+              <span>Seed:</span>
+              <Input
+                value={customSeed}
+                placeholder="Leave empty for a random room"
+                onChange={(e) => setCustomSeed(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                The same seed and complexity always produce the same room.
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>Generator:</span>
+              <div className="flex gap-2">
+                {GENERATOR_VERSIONS.map(version => (
+                  <Button
+                    key={version}
+                    size="sm"
+                    variant={customGeneratorVersion === version ? "default" : "outline"}
+                    onClick={() => setCustomGeneratorVersion(version)}
+                  >
+                    v{version}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Pick the generator version shown with a shared seed to get the same room.
+            </p>
             <div className="text-sm text-muted-foreground">
               <p>Higher complexity means:</p>
               <ul className="list-disc pl-5 mt-1">
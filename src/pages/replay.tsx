@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from "react";
+import Head from "next/head";
+import Header from "@/components/Header";
+import RoomView from "@/components/RoomView";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { GameState } from "@/types/game";
+import { Replay, ReplayFrame, decodeReplay, getReplayFrames, loadReplayForViewer } from "@/utils/replay";
+
+const SPEEDS = [0.5, 1, 2, 4];
+// Pauses between events are shortened or stretched to stay watchable
+const MIN_STEP_MS = 150;
+const MAX_STEP_MS = 2000;
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Cells whose sofa changed between two boards
+const getChangedCells = (before: GameState | undefined, after: GameState): Set<string> => {
+  const changed = new Set<string>();
+  if (!before) return changed;
+  after.occupancy.forEach((row, y) => row.forEach((sofaId, x) => {
+    const previousId = before.occupancy[y]?.[x] ?? null;
+    if (sofaId !== previousId) {
+      changed.add(`${x},${y}`);
+      return;
+    }
+    // A sofa rotated in place keeps its id but not its shape
+    const sofa = sofaId !== null ? after.sofas.find(piece => piece.id === sofaId) : undefined;
+    const previous = sofaId !== null ? before.sofas.find(piece => piece.id === sofaId) : undefined;
+    if (sofa && previous && (sofa.rotation !== previous.rotation || sofa.position.x !== previous.position.x || sofa.position.y !== previous.position.y)) {
+      changed.add(`${x},${y}`);
+    }
+  }));
+  return changed;
+};
+
+export default function ReplayViewer() {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [pastedText, setPastedText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const frame = frames[frameIndex];
+  const lastIndex = frames.length - 1;
+
+  // Pick up the replay handed over by the game page
+  useEffect(() => {
+    const stored = loadReplayForViewer();
+    if (stored) showReplay(() => stored);
+  }, []);
+
+  // Step through the frames at the recorded pace
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const gap = (frames[frameIndex + 1].time - frames[frameIndex].time) / speed;
+    const timer = setTimeout(() => setFrameIndex(frameIndex + 1), Math.min(Math.max(gap, MIN_STEP_MS), MAX_STEP_MS));
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastIndex, frames, speed]);
+
+  // Replays are shared as text, so both reading one and playing it back may fail
+  const showReplay = (read: () => Replay) => {
+    try {
+      const next = read();
+      setFrames(getReplayFrames(next));
+      setReplay(next);
+      setFrameIndex(0);
+      setIsPlaying(false);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const loadText = (text: string) => showReplay(() => decodeReplay(text));
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (file) loadText(await file.text());
+  };
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!isPlaying && frameIndex >= lastIndex) setFrameIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const stepTo = (index: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.max(0, Math.min(index, lastIndex)));
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Replay - Friheten</title>
+        <meta name="description" content="Watch a Friheten solve move by move" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="bg-background min-h-screen flex flex-col" style={{ backgroundColor: "#FBDA0C" }}>
+        <main className="flex-1 p-4">
+          <div className="container mx-auto space-y-4">
+            <Header />
+            {replay && frame && (
+              <Card>
+                <CardHeader>
+                  <div style={{ color: "#0057AD" }}>
+                    <CardTitle>{replay.level.name}</CardTitle>
+                    <CardDescription>
+                      Step {frameIndex} of {lastIndex} at {formatTime(frame.time)}: {frame.label}
+                    </CardDescription>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <RoomView state={frame.state} highlight={getChangedCells(frames[frameIndex - 1]?.state, frame.state)} />
+                  <Slider
+                    min={0}
+                    max={Math.max(lastIndex, 1)}
+                    step={1}
+                    value={[frameIndex]}
+                    onValueChange={([value]) => stepTo(value)}
+                    disabled={lastIndex === 0}
+                    aria-label="Replay position"
+                  />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => stepTo(frameIndex - 1)} disabled={frameIndex === 0}>
+                        Back
+                      </Button>
+                      <Button onClick={togglePlaying} disabled={lastIndex === 0}>
+                        {isPlaying ? "Pause" : "Play"}
+                      </Button>
+                      <Button variant="outline" onClick={() => stepTo(frameIndex + 1)} disabled={frameIndex >= lastIndex}>
+                        Forward
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Speed:</span>
+                      {SPEEDS.map(option => (
+                        <Button
+                          key={option}
+                          size="sm"
+                          variant={speed === option ? "default" : "outline"}
+                          onClick={() => setSpeed(option)}
+                        >
+                          {option}x
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            <Card>
+              <CardHeader>
+                <div style={{ color: "#0057AD" }}>
+                  <CardTitle>{replay ? "Load Another Replay" : "Load a Replay"}</CardTitle>
+                  <CardDescription>
+                    Paste a replay or open a downloaded .replay.txt file. Replays are recorded while you play.
+                  </CardDescription>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={6}
+                  placeholder="friheten-replay 1"
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                />
+                {error && <div className="text-sm text-red-600">{error}</div>}
+                <div className="flex gap-2">
+                  <Button onClick={() => loadText(pastedText)} disabled={pastedText.trim() === ''}>
+                    Load
+                  </Button>
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                    Open File
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".txt,text/plain"
+                    className="hidden"
+                    onChange={handleFileChange}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
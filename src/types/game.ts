@@ -1,20 +1,43 @@
-export type CellType = 'empty' | 'wall' | 'door' | 'sofa-single' | 'sofa-rect-h' | 'sofa-rect-v' | 'sofa-l-0' | 'sofa-l-90' | 'sofa-l-180' | 'sofa-l-270';
+export type CellType = 'empty' | 'wall' | 'door' | 'sofa';
 export type Position = { x: number; y: number };
-export type SofaType = 'single' | 'rectangular' | 'l-shaped';
+export type SofaType = string; // Piece id from the piece catalog (src/data/pieces.json)
 export type Rotation = 0 | 90 | 180 | 270;
 
+export interface PieceArt {
+  fill: string;
+  stroke: string;
+  cushion: string;
+}
+
+export interface PieceDefinition {
+  id: SofaType;
+  name: string;
+  size: number; // Number of cells covered
+  seats: number; // People the piece seats
+  cells: Position[]; // Footprint at rotation 0, relative to the anchor cell at (0, 0); the last cell is the chaise end
+  rotations: Rotation[]; // Rotations with distinct footprints
+  chiral: boolean; // Comes in two handednesses: mirroring gives footprints no rotation reaches, or the data says so
+  art: PieceArt;
+}
+
 export interface SofaPiece {
   type: SofaType;
   position: Position;
   rotation: Rotation;
+  flipped: boolean; // Mirrored left to right before rotating; always false for pieces that aren't chiral
   id: number;
 }
 
-export interface SofaInventory {
-  single: number;
-  rectangular: number;
-  'l-shaped': number;
-}
+// Pieces available per inventory key: the catalog id, or "<id>:flipped" for the
+// mirrored handedness of a chiral piece. Missing keys count as zero.
+export type SofaInventory = Record<string, number>;
+
+// What a level asks of the player (see utils/objectives.ts)
+export type LevelObjective =
+  | { kind: 'fill-cells'; cells: number } // Cover at least this many cells with sofas
+  | { kind: 'use-all-pieces' } // Place every piece in the inventory
+  | { kind: 'max-empty-cells'; cells: number } // Leave at most this many fillable empty cells, or run out of pieces
+  | { kind: 'seats'; seats: number }; // Seat at least this many people
 
 export interface Level {
   width: number;
@@ -23,4 +46,114 @@ export interface Level {
   doorPosition: Position;
   name: string;
   inventory: SofaInventory;
-}
\ No newline at end of file
+  seed?: number; // Set on generated levels
+  generatorVersion?: number;
+  par?: number; // Best achievable score, when known
+  objective?: LevelObjective; // Defaults to leaving at most 3 fillable empty cells
+}
+
+export type DiagnosticSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export type DiagnosticCode =
+  | 'level-started'
+  | 'sofa-removed'
+  | 'out-of-inventory'
+  | 'placement-blocked'
+  | 'rotation-blocked'
+  | 'move-blocked'
+  | 'no-sofa-here'
+  | 'door-blocked'
+  | 'sofa-unreachable'
+  | 'constraints-ok'
+  | 'fillable-cells-left'
+  | 'objective-not-met'
+  | 'level-complete';
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  position?: Position;
+  sofaId?: number;
+}
+
+export type StarRating = 1 | 2 | 3;
+
+export interface ScoreBonus {
+  id: 'no-removals' | 'time-target';
+  label: string;
+  points: number; // Points the bonus is worth
+  earned: boolean;
+}
+
+// Score of a solved room, worked out by utils/scoring.ts
+export interface LevelResult {
+  scoringVersion: number; // Version of the formula that produced this result
+  cellsFilled: number; // The base score: cells covered by sofas
+  par: number; // Score the stars are measured against
+  parIsEstimate: boolean; // True when the level has no par and the room's capacity stands in for it
+  stars: StarRating;
+  piecesUsed: number;
+  piecesAvailable: number;
+  unusedCells: number; // Empty cells that could still hold a sofa
+  bonuses: ScoreBonus[];
+  elapsedMs?: number; // Time from the level start, when the caller tracked it
+  total: number; // cellsFilled plus the points of every earned bonus
+}
+
+// Result of the last 'check' action
+export interface SolutionCheck {
+  solved: boolean;
+  fillableEmptyCells: number;
+  criticalPaths: string[]; // Position keys ("x,y") of critical empty cells
+  result?: LevelResult; // Set when solved
+}
+
+// Outcome of placing a piece, worked out before the player commits to it
+export interface PlacementPreview {
+  cells: Position[]; // Cells the piece would cover, including any outside the room
+  status: 'valid' | 'blocked' | 'unsafe'; // 'unsafe' fits but breaks reachability or blocks the door
+  diagnostics: Diagnostic[]; // Why the placement is blocked or unsafe; empty when valid
+}
+
+// Maps every cell to the id of the SofaPiece covering it, or null
+export type Occupancy = (number | null)[][];
+
+// Which empty cells the door reaches and how well each sofa can be reached,
+// kept up to date piece by piece (see utils/reachability.ts). Cells are
+// indexed by y * width + x.
+export interface ReachabilityIndex {
+  width: number;
+  height: number;
+  door: number; // Cell index of the door
+  entrance: number; // Empty cell next to the door that searches start from, or -1 when the door is blocked
+  open: Uint8Array; // 1 for empty cells
+  reachable: Uint8Array; // 1 for empty cells connected to the entrance
+  owner: Int32Array; // Id of the sofa covering each cell, or 0
+  access: Map<number, number>; // Per sofa id: how many of its cell edges face a reachable empty cell
+}
+
+export interface GameState {
+  level: Level;
+  grid: CellType[][];
+  occupancy: Occupancy;
+  reachability: ReachabilityIndex;
+  sofas: SofaPiece[];
+  inventory: SofaInventory;
+  nextSofaId: number;
+  score: number;
+  removals: number; // Sofas taken off the board since the level started
+  message: string;
+  diagnostics: Diagnostic[];
+  lastCheck: SolutionCheck | null;
+}
+
+export type GameAction =
+  | { type: 'place'; sofaType: SofaType; position: Position; rotation: Rotation; flipped?: boolean }
+  | { type: 'remove'; position: Position }
+  | { type: 'rotate'; position: Position }
+  // Move the sofa covering `position` so its anchor lands on `to`, keeping its id
+  | { type: 'move'; position: Position; to: Position; rotation: Rotation }
+  | { type: 'reset'; level?: Level }
+  // elapsedMs is the time since the level started, for the time bonus
+  | { type: 'check'; elapsedMs?: number };
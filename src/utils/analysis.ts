@@ -0,0 +1,125 @@
+import { GameState, Level } from "@/types/game";
+import { getCampaignLevel } from "@/utils/campaign";
+import { generateDailyLevel } from "@/utils/dailyChallenge";
+import { getCriticalPaths } from "@/utils/gameEngine";
+import { Hint, getHint } from "@/utils/hints";
+import { GeneratedLevel, generateLevel } from "@/utils/levelGenerator";
+import { SolverOptions, SolverProgress, SolverResult, solveLevel } from "@/utils/solver";
+
+/**
+ * Analysis protocol
+ *
+ * Heavy analysis (the solver, hints, critical paths and solver-checked level
+ * generation, including the generated campaign and daily rooms) runs away from the React tree, in a Web Worker in the browser
+ * or in-process in Node. Both sides talk through the messages below, which
+ * only carry structured-clone friendly data, and this module holds the side
+ * that does the work. The client side lives in utils/analysisService.ts.
+ */
+
+export type AnalysisTask =
+  | { kind: 'solve'; level: Level; options?: Pick<SolverOptions, 'timeLimitMs' | 'maxNodes' | 'fixed'> }
+  | { kind: 'hint'; state: GameState; timeLimitMs?: number }
+  | { kind: 'critical-paths'; state: GameState }
+  | { kind: 'generate'; complexity: number; levelNumber: number; seed: number; version: number }
+  | { kind: 'campaign-level'; levelIndex: number }
+  | { kind: 'daily-level'; dateKey: string };
+
+export type AnalysisKind = AnalysisTask['kind'];
+
+// What each kind of task produces
+export interface AnalysisValues {
+  'solve': SolverResult;
+  'hint': Hint;
+  'critical-paths': string[]; // Position keys ("x,y") of critical empty cells
+  'generate': GeneratedLevel;
+  'campaign-level': Level;
+  'daily-level': Level;
+}
+
+export type AnalysisResult = { [K in AnalysisKind]: { kind: K; value: AnalysisValues[K] } }[AnalysisKind];
+
+export type AnalysisProgress = SolverProgress;
+
+// Messages to the analysis side
+export type AnalysisRequest =
+  | { type: 'run'; id: number; task: AnalysisTask }
+  | { type: 'cancel'; id: number };
+
+// Messages from the analysis side; every run ends with exactly one result, error or cancelled message
+export type AnalysisResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'result'; id: number; result: AnalysisResult }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'cancelled'; id: number };
+
+/**
+ * Run a task to completion
+ *
+ * @param task The task to run
+ * @param onProgress Called while the solver searches
+ * @param shouldStop Polled by the solver; returning true ends the search early
+ */
+export function runAnalysisTask(
+  task: AnalysisTask,
+  onProgress?: (progress: AnalysisProgress) => void,
+  shouldStop?: () => boolean
+): AnalysisResult {
+  switch (task.kind) {
+    case 'solve':
+      return { kind: 'solve', value: solveLevel(task.level, { ...task.options, onProgress, shouldStop }) };
+    case 'hint':
+      return { kind: 'hint', value: getHint(task.state, { timeLimitMs: task.timeLimitMs, onProgress, shouldStop }) };
+    case 'critical-paths':
+      return { kind: 'critical-paths', value: Array.from(getCriticalPaths(task.state)) };
+    case 'generate':
+      return { kind: 'generate', value: generateLevel(task.complexity, task.levelNumber, task.seed, task.version) };
+    case 'campaign-level':
+      return { kind: 'campaign-level', value: getCampaignLevel(task.levelIndex) };
+    case 'daily-level':
+      return { kind: 'daily-level', value: generateDailyLevel(task.dateKey) };
+  }
+}
+
+/**
+ * Create the message handler for the analysis side
+ *
+ * Runs are started on a later turn of the event loop, so a cancel that is
+ * already queued behind a run stops it before it starts. A cancel that
+ * arrives while a run is searching stops the solver at its next progress
+ * check, which only happens when the cancel can be delivered mid-run (as
+ * with the in-process transport); a busy worker is terminated instead.
+ *
+ * @param post Sends a response back to the client
+ * @returns The function to call with every request
+ */
+export function createAnalysisHandler(post: (response: AnalysisResponse) => void): (request: AnalysisRequest) => void {
+  const cancelled = new Set<number>();
+
+  const run = (id: number, task: AnalysisTask) => {
+    const isCancelled = () => cancelled.has(id);
+
+    if (!isCancelled()) {
+      try {
+        const result = runAnalysisTask(task, progress => post({ type: 'progress', id, progress }), isCancelled);
+        if (!isCancelled()) {
+          post({ type: 'result', id, result });
+          return;
+        }
+      } catch (error) {
+        post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+    }
+
+    cancelled.delete(id);
+    post({ type: 'cancelled', id });
+  };
+
+  return (request) => {
+    if (request.type === 'cancel') {
+      cancelled.add(request.id);
+    } else {
+      setTimeout(() => run(request.id, request.task), 0);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisProgress } from "@/utils/analysis";
+import { AnalysisCancelledError, connectInlineAnalysis, createAnalysisService } from "@/utils/analysisService";
+import { getCampaignLevel } from "@/utils/campaign";
+import { generateDailyLevel } from "@/utils/dailyChallenge";
+import { levelFromAscii } from "@/utils/levelFormat";
+import { generateLevel } from "@/utils/levelGenerator";
+
+// More L-shaped sofas than the room can take, so the solver can't prove its best quickly
+const crowdedRoom = levelFromAscii(`
+inventory: l-shaped=30
+
+##########
+#........#
+#........#
+#........#
+D........#
+#........#
+#........#
+#........#
+#........#
+##########
+`.trimStart());
+
+describe("analysis service over the inline transport", () => {
+  it("answers tasks with the same values as running them directly", async () => {
+    const service = createAnalysisService(connectInlineAnalysis);
+
+    const solved = await service.run({ kind: 'solve', level: getCampaignLevel(0) }).result;
+    expect(solved).toMatchObject({ score: 10, feasible: true, optimal: true });
+
+    const generated = await service.run({ kind: 'generate', complexity: 0.4, levelNumber: 3, seed: 77, version: 2 }).result;
+    expect(generated).toEqual(generateLevel(0.4, 3, 77, 2));
+
+    expect(await service.run({ kind: 'campaign-level', levelIndex: 10 }).result).toEqual(getCampaignLevel(10));
+    expect(await service.run({ kind: 'daily-level', dateKey: '2026-10-18' }).result).toEqual(generateDailyLevel('2026-10-18'));
+
+    service.dispose();
+  });
+
+  it("reports solver progress while a task runs", async () => {
+    const service = createAnalysisService(connectInlineAnalysis);
+    const progress: AnalysisProgress[] = [];
+
+    await service.run({ kind: 'solve', level: crowdedRoom, options: { timeLimitMs: 300 } }, update => progress.push(update)).result;
+
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[progress.length - 1].nodes).toBeGreaterThan(0);
+    service.dispose();
+  });
+
+  it("stops a running search when it is cancelled from a progress report", async () => {
+    const service = createAnalysisService(connectInlineAnalysis);
+    const job = service.run({ kind: 'solve', level: crowdedRoom }, () => job.cancel());
+
+    await expect(job.result).rejects.toBeInstanceOf(AnalysisCancelledError);
+    service.dispose();
+  });
+
+  it("rejects a task that fails with its error message", async () => {
+    const service = createAnalysisService(connectInlineAnalysis);
+    await expect(service.run({ kind: 'daily-level', dateKey: '2026-02-30' }).result).rejects.toThrow('Invalid daily date');
+    service.dispose();
+  });
+
+  it("cancels queued jobs and everything left on dispose", async () => {
+    const service = createAnalysisService(connectInlineAnalysis);
+    const first = service.run({ kind: 'campaign-level', levelIndex: 0 });
+    const second = service.run({ kind: 'campaign-level', levelIndex: 1 });
+    second.cancel();
+
+    await expect(first.result).resolves.toEqual(getCampaignLevel(0));
+    await expect(second.result).rejects.toBeInstanceOf(AnalysisCancelledError);
+
+    const pending = service.run({ kind: 'campaign-level', levelIndex: 2 });
+    service.dispose();
+    await expect(pending.result).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  AnalysisKind,
+  AnalysisProgress,
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisTask,
+  AnalysisValues,
+  createAnalysisHandler,
+} from "@/utils/analysis";
+
+/**
+ * Analysis service
+ *
+ * Client for the analysis protocol in utils/analysis.ts. Tasks are queued and
+ * answered in order; each one returns a job whose promise settles with the
+ * task's value, or rejects with an AnalysisCancelledError once cancelled.
+ *
+ * The service doesn't care where the analysis runs. The browser connects a
+ * Web Worker, and Node (tests and the CLI) runs the same handler in-process.
+ */
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export interface AnalysisTransport {
+  post: (request: AnalysisRequest) => void;
+  // Stops the analysis side at once, even in the middle of a run
+  terminate?: () => void;
+}
+
+// Opens a transport that hands every response to onResponse
+export type ConnectAnalysis = (onResponse: (response: AnalysisResponse) => void) => AnalysisTransport;
+
+export interface AnalysisJob<T> {
+  id: number;
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+export interface AnalysisService {
+  run: <K extends AnalysisKind>(
+    task: Extract<AnalysisTask, { kind: K }>,
+    onProgress?: (progress: AnalysisProgress) => void
+  ) => AnalysisJob<AnalysisValues[K]>;
+  // Cancels every job and closes the transport
+  dispose: () => void;
+}
+
+interface PendingJob {
+  task: AnalysisTask;
+  onProgress?: (progress: AnalysisProgress) => void;
+  resolve: (value: AnalysisValues[AnalysisKind]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Run analysis in a Web Worker
+ */
+export const connectAnalysisWorker: ConnectAnalysis = (onResponse) => {
+  const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url));
+  worker.onmessage = (event: MessageEvent<AnalysisResponse>) => onResponse(event.data);
+  return {
+    post: request => worker.postMessage(request),
+    terminate: () => worker.terminate()
+  };
+};
+
+/**
+ * Run analysis in the same thread, for Node and for browsers without workers
+ *
+ * Messages are cloned on the way in and out like they would be for a worker.
+ * There is nothing to terminate, so cancelling a running job takes effect at
+ * the solver's next progress check and only when requested from a progress
+ * callback.
+ */
+export const connectInlineAnalysis: ConnectAnalysis = (onResponse) => {
+  const handle = createAnalysisHandler(response => onResponse(structuredClone(response)));
+  return {
+    post: request => handle(structuredClone(request))
+  };
+};
+
+/**
+ * Create an analysis service on top of a transport
+ *
+ * @param connect Opens the transport; called again after a busy worker is terminated
+ */
+export function createAnalysisService(connect: ConnectAnalysis): AnalysisService {
+  // Jobs in the order the transport received them, so the first one is the one running
+  const pending = new Map<number, PendingJob>();
+  let nextId = 1;
+
+  const handleResponse = (response: AnalysisResponse) => {
+    const job = pending.get(response.id);
+    if (!job) return;
+
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.type === 'result') {
+      job.resolve(response.result.value);
+    } else if (response.type === 'error') {
+      job.reject(new Error(response.message));
+    } else {
+      job.reject(new AnalysisCancelledError());
+    }
+  };
+
+  let transport = connect(handleResponse);
+
+  const cancel = (id: number) => {
+    const job = pending.get(id);
+    if (!job) return;
+
+    const isRunning = pending.keys().next().value === id;
+    if (isRunning && transport.terminate) {
+      // A busy worker can't read messages, so replace it and hand the queued jobs to the new one
+      transport.terminate();
+      pending.delete(id);
+      job.reject(new AnalysisCancelledError());
+      transport = connect(handleResponse);
+      pending.forEach((other, otherId) => transport.post({ type: 'run', id: otherId, task: other.task }));
+    } else {
+      transport.post({ type: 'cancel', id });
+    }
+  };
+
+  const run = <K extends AnalysisKind>(
+    task: Extract<AnalysisTask, { kind: K }>,
+    onProgress?: (progress: AnalysisProgress) => void
+  ): AnalysisJob<AnalysisValues[K]> => {
+    const id = nextId++;
+    const result = new Promise<AnalysisValues[K]>((resolve, reject) => {
+      pending.set(id, { task, onProgress, resolve: resolve as PendingJob['resolve'], reject });
+    });
+    transport.post({ type: 'run', id, task });
+    return { id, result, cancel: () => cancel(id) };
+  };
+
+  const dispose = () => {
+    transport.terminate?.();
+    pending.forEach((job, id) => {
+      if (!transport.terminate) transport.post({ type: 'cancel', id });
+      job.reject(new AnalysisCancelledError());
+    });
+    pending.clear();
+  };
+
+  return { run, dispose };
+}
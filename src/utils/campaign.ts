@@ -0,0 +1,63 @@
+import { Level } from "@/types/game";
+import { levelFromAscii } from "@/utils/levelFormat";
+import { generateLevel } from "@/utils/levelGenerator";
+import { hashSeed } from "@/utils/random";
+
+/**
+ * Campaign levels
+ *
+ * The campaign opens with hand-made rooms and continues with generated ones
+ * of rising complexity. Both are the same for every player, so the game page
+ * and the server (which re-checks leaderboard entries) agree on every level.
+ */
+
+// Number of predefined levels before generating procedural ones
+const NUM_PREDEFINED_LEVELS = 2;
+
+// Predefined game levels, in the ASCII level file format (# wall, D door, . floor)
+const predefinedLevels: Level[] = [
+  levelFromAscii(`
+version: 1
+name: Level 1: Small Room
+inventory: single=3 rectangular=2 l-shaped=1
+par: 10
+
+######
+#....#
+D....#
+#....#
+#....#
+######
+`.trimStart()),
+  levelFromAscii(`
+version: 1
+name: Level 2: L-Shaped Room
+inventory: single=4 rectangular=3 l-shaped=2
+par: 16
+
+########
+#...#..#
+#...#..#
+#...#..#
+D.###..#
+#......#
+#......#
+########
+`.trimStart())
+];
+
+/**
+ * Get a campaign level (predefined or generated)
+ *
+ * @param levelIndex Zero-based position in the campaign
+ */
+export function getCampaignLevel(levelIndex: number): Level {
+  if (levelIndex < NUM_PREDEFINED_LEVELS) {
+    return predefinedLevels[levelIndex];
+  } else {
+    // Calculate complexity based on level number (0.2 to 0.9)
+    const complexity = Math.min(0.2 + (levelIndex - NUM_PREDEFINED_LEVELS) * 0.1, 0.9);
+    // Campaign levels use a fixed seed per level number so every player gets the same room
+    return generateLevel(complexity, levelIndex + 1, hashSeed(`campaign-${levelIndex + 1}`));
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { generateDailyLevel, getDailySeed, getDailyStreak, parseDateKey, toDateKey } from "@/utils/dailyChallenge";
+
+// Noon of a local calendar day, as stored in completedAt
+const noon = (dateKey: string) => {
+  const date = parseDateKey(dateKey)!;
+  date.setHours(12);
+  return date.toISOString();
+};
+
+const onTime = (...dateKeys: string[]) =>
+  Object.fromEntries(dateKeys.map(key => [key, { completedAt: noon(key) }]));
+
+describe("date keys", () => {
+  it("round-trips local calendar days", () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(parseDateKey('2024-02-29')).toEqual(new Date(2024, 1, 29));
+  });
+
+  it("rejects keys that aren't real dates", () => {
+    for (const key of ['2026-02-29', '2026-13-01', '2026-1-5', '20260105', '']) {
+      expect(parseDateKey(key)).toBeNull();
+    }
+  });
+});
+
+describe("generateDailyLevel", () => {
+  it("builds the same room for a date every time", () => {
+    const level = generateDailyLevel('2026-10-19');
+    expect(level.name).toBe('Daily Room 2026-10-19');
+    expect(level.seed).toBe(getDailySeed('2026-10-19'));
+    expect(generateDailyLevel('2026-10-19')).toEqual(level);
+    expect(getDailySeed('2026-10-20')).not.toBe(level.seed);
+  });
+
+  it("throws for invalid dates", () => {
+    expect(() => generateDailyLevel('2026-02-30')).toThrow('Invalid daily date "2026-02-30"');
+  });
+});
+
+describe("getDailyStreak", () => {
+  it("counts on-time dailies in a row up to today", () => {
+    expect(getDailyStreak(onTime('2026-10-17', '2026-10-18', '2026-10-19'), '2026-10-19')).toBe(3);
+    expect(getDailyStreak(onTime('2026-10-15', '2026-10-17', '2026-10-18'), '2026-10-18')).toBe(2);
+  });
+
+  it("keeps a streak through yesterday alive until today is over", () => {
+    expect(getDailyStreak(onTime('2026-10-17', '2026-10-18'), '2026-10-19')).toBe(2);
+    expect(getDailyStreak(onTime('2026-10-17'), '2026-10-19')).toBe(0);
+  });
+
+  it("doesn't count dailies finished later from the archive", () => {
+    const results = { ...onTime('2026-10-19'), '2026-10-18': { completedAt: noon('2026-10-19') } };
+    expect(getDailyStreak(results, '2026-10-19')).toBe(1);
+  });
+});
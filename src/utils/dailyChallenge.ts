@@ -0,0 +1,84 @@
+import { Level } from "@/types/game";
+import { generateLevel } from "@/utils/levelGenerator";
+import { hashSeed } from "@/utils/random";
+
+/**
+ * Daily challenge
+ *
+ * Every calendar date has one room. Its seed is hashed from the date, and
+ * the generator is deterministic for a seed, so everyone opening the same
+ * date plays the same layout. Dates are local calendar days written as
+ * "YYYY-MM-DD" (date keys), which is also how results are stored.
+ */
+
+// Complexity from Monday to Sunday: rooms get harder through the week
+const WEEKDAY_COMPLEXITY = [0.3, 0.35, 0.4, 0.5, 0.6, 0.7, 0.8];
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Date key of a local calendar day
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of a date key, or null if the key isn't a real date
+ */
+export function parseDateKey(key: string): Date | null {
+  const match = key.match(DATE_KEY_PATTERN);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKey(date) === key ? date : null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function getDailySeed(dateKey: string): number {
+  return hashSeed(`daily-${dateKey}`);
+}
+
+/**
+ * Generate the room for a date
+ *
+ * @throws Error for keys that aren't real dates
+ */
+export function generateDailyLevel(dateKey: string): Level {
+  const date = parseDateKey(dateKey);
+  if (!date) {
+    throw new Error(`Invalid daily date "${dateKey}"`);
+  }
+
+  const complexity = WEEKDAY_COMPLEXITY[(date.getDay() + 6) % 7];
+  return { ...generateLevel(complexity, 0, getDailySeed(dateKey)), name: `Daily Room ${dateKey}` };
+}
+
+/**
+ * Count the dailies finished on their own day, in a row, up to today
+ *
+ * Today's daily keeps the streak alive until midnight, so an unfinished
+ * today doesn't break a streak that ran through yesterday. Past dailies
+ * finished later from the archive don't count.
+ *
+ * @param results Results by daily date key, with the ISO time each daily was first finished
+ * @param today Date key of the current day
+ */
+export function getDailyStreak(results: Record<string, { completedAt: string }>, today: string): number {
+  const isOnTime = (key: string) => results[key] !== undefined && toDateKey(new Date(results[key].completedAt)) === key;
+
+  let day = parseDateKey(today);
+  if (!day) return 0;
+  if (!isOnTime(today)) day = addDays(day, -1);
+
+  let streak = 0;
+  while (isOnTime(toDateKey(day))) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Level } from "@/types/game";
+import { createGameState, gameReducer, getSofaCells, hasErrors } from "@/utils/gameEngine";
+import { levelFromAscii } from "@/utils/levelFormat";
+
+const room: Level = levelFromAscii(`
+inventory: single=2 rectangular=1 l-shaped=1
+
+######
+#....#
+D....#
+#....#
+######
+`.trimStart());
+
+describe("gameReducer", () => {
+  it("places a sofa, takes it from the inventory and fills its cells", () => {
+    const state = gameReducer(createGameState(room), { type: 'place', sofaType: 'rectangular', position: { x: 3, y: 1 }, rotation: 0 });
+
+    expect(state.sofas).toHaveLength(1);
+    expect(state.inventory.rectangular).toBe(0);
+    expect(state.score).toBe(2);
+    expect(state.occupancy[1][3]).toBe(state.sofas[0].id);
+    expect(state.occupancy[1][4]).toBe(state.sofas[0].id);
+    expect(hasErrors(state.diagnostics)).toBe(false);
+  });
+
+  it("rejects placements on walls, over other sofas and past the inventory", () => {
+    const start = createGameState(room);
+    const onWall = gameReducer(start, { type: 'place', sofaType: 'single', position: { x: 0, y: 0 }, rotation: 0 });
+    expect(onWall.sofas).toBe(start.sofas);
+    expect(onWall.diagnostics[0].code).toBe('placement-blocked');
+
+    const placed = gameReducer(start, { type: 'place', sofaType: 'rectangular', position: { x: 3, y: 1 }, rotation: 0 });
+    const overlap = gameReducer(placed, { type: 'place', sofaType: 'single', position: { x: 4, y: 1 }, rotation: 0 });
+    expect(overlap.sofas).toBe(placed.sofas);
+
+    const noneLeft = gameReducer(placed, { type: 'place', sofaType: 'rectangular', position: { x: 3, y: 3 }, rotation: 0 });
+    expect(noneLeft.diagnostics[0].code).toBe('out-of-inventory');
+  });
+
+  it("reports a blocked door as an error", () => {
+    const state = gameReducer(createGameState(room), { type: 'place', sofaType: 'single', position: { x: 1, y: 2 }, rotation: 0 });
+
+    expect(state.diagnostics.map(d => d.code)).toContain('door-blocked');
+    expect(hasErrors(state.diagnostics)).toBe(true);
+  });
+
+  it("removes a sofa, returns it to the inventory and counts the removal", () => {
+    const placed = gameReducer(createGameState(room), { type: 'place', sofaType: 'single', position: { x: 4, y: 1 }, rotation: 0 });
+    const removed = gameReducer(placed, { type: 'remove', position: { x: 4, y: 1 } });
+
+    expect(removed.sofas).toHaveLength(0);
+    expect(removed.inventory.single).toBe(2);
+    expect(removed.removals).toBe(1);
+  });
+
+  it("only solves the room once no fillable cells are left", () => {
+    const state = gameReducer(createGameState(room), { type: 'check' });
+    expect(state.lastCheck?.solved).toBe(false);
+    expect(state.lastCheck?.result).toBeUndefined();
+  });
+
+  it("treats unknown and prototype piece ids as out of inventory instead of throwing", () => {
+    const start = createGameState(room);
+    for (const sofaType of ['sofa-bed', 'toString', '__proto__', 'constructor']) {
+      const state = gameReducer(start, { type: 'place', sofaType, position: { x: 3, y: 1 }, rotation: 0 });
+      expect(state.sofas).toBe(start.sofas);
+      expect(state.diagnostics[0].code).toBe('out-of-inventory');
+    }
+  });
+});
+
+describe("getSofaCells", () => {
+  it("keeps the original rectangular and L-shaped footprints", () => {
+    const at = (type: string, rotation: 0 | 90 | 180 | 270) =>
+      getSofaCells(type, { x: 5, y: 5 }, rotation).map(cell => [cell.x - 5, cell.y - 5]);
+
+    expect(at('rectangular', 0)).toEqual([[0, 0], [1, 0]]);
+    expect(at('rectangular', 90)).toEqual([[0, 0], [0, 1]]);
+    expect(at('rectangular', 180)).toEqual([[0, 0], [1, 0]]);
+    expect(at('rectangular', 270)).toEqual([[0, 0], [0, 1]]);
+    expect(at('l-shaped', 90)).toEqual([[0, 0], [0, -1], [1, 0]]);
+    expect(at('l-shaped', 180)).toEqual([[0, 0], [-1, 0], [0, -1]]);
+  });
+});
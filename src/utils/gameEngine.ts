@@ -0,0 +1,531 @@
+import {
+  CellType,
+  Diagnostic,
+  GameAction,
+  GameState,
+  Level,
+  Occupancy,
+  PlacementPreview,
+  Position,
+  Rotation,
+  SofaPiece,
+  SofaType,
+  SolutionCheck,
+} from "@/types/game";
+import { identifyCriticalPaths } from "@/utils/pathfinding";
+import {
+  addPiece,
+  createReachabilityIndex,
+  findCutOffSofas,
+  isDoorBlocked,
+  isSofaReachable,
+  removePiece
+} from "@/utils/reachability";
+import { formatStars, scoreSolution } from "@/utils/scoring";
+import { describeObjective, describeObjectiveProgress, evaluateObjective, getObjective } from "@/utils/objectives";
+import { getInventoryCount, getInventoryKey, getNextRotation, getPieceCells, getPieceName, isChiral } from "@/utils/pieceCatalog";
+
+/**
+ * Headless game engine
+ *
+ * All game rules live here as pure functions over a plain GameState, so the
+ * same code can drive the React page, tests, solvers and server-side checks.
+ * The reducer never mutates its input and reports what happened through
+ * typed diagnostics instead of UI side effects.
+ */
+
+export const INITIAL_MESSAGE = 'Place sofas in the room. Make sure all sofas are reachable and the door is not blocked.';
+
+// Check if a position is within the level bounds
+function isInBounds(pos: Position, level: Level): boolean {
+  return pos.x >= 0 && pos.x < level.width && pos.y >= 0 && pos.y < level.height;
+}
+
+function createDiagnostic(
+  code: Diagnostic['code'],
+  severity: Diagnostic['severity'],
+  message: string,
+  extra: Pick<Diagnostic, 'position' | 'sofaId'> = {}
+): Diagnostic {
+  return { code, severity, message, ...extra };
+}
+
+// Return a new state carrying the given diagnostics; the first one becomes the message
+function withDiagnostics(state: GameState, diagnostics: Diagnostic[]): GameState {
+  return {
+    ...state,
+    diagnostics,
+    message: diagnostics.length > 0 ? diagnostics[0].message : state.message
+  };
+}
+
+/**
+ * Build the initial grid for a level (walls, door and empty floor)
+ */
+export function createGrid(level: Level): CellType[][] {
+  const grid: CellType[][] = Array(level.height).fill(null).map(() => Array(level.width).fill('empty'));
+
+  level.walls.forEach(wall => {
+    grid[wall.y][wall.x] = 'wall';
+  });
+
+  grid[level.doorPosition.y][level.doorPosition.x] = 'door';
+
+  return grid;
+}
+
+/**
+ * Build an empty occupancy layer for a level
+ */
+export function createOccupancy(level: Level): Occupancy {
+  return Array(level.height).fill(null).map(() => Array(level.width).fill(null));
+}
+
+/**
+ * Create a fresh game state for a level
+ */
+export function createGameState(level: Level): GameState {
+  const grid = createGrid(level);
+  const occupancy = createOccupancy(level);
+  return {
+    level,
+    grid,
+    occupancy,
+    reachability: createReachabilityIndex(grid, occupancy, level.doorPosition),
+    sofas: [],
+    inventory: { ...level.inventory },
+    nextSofaId: 1,
+    score: 0,
+    removals: 0,
+    message: INITIAL_MESSAGE,
+    diagnostics: [createDiagnostic('level-started', 'info', INITIAL_MESSAGE)],
+    lastCheck: null
+  };
+}
+
+/**
+ * Get cells occupied by a sofa based on its type, anchor position, rotation and handedness
+ *
+ * Footprints come from the piece catalog.
+ */
+export function getSofaCells(type: SofaType, pos: Position, rotation: Rotation, flipped = false): Position[] {
+  return getPieceCells(type, pos, rotation, flipped);
+}
+
+/**
+ * Get the id of the sofa covering a cell, or null if the cell holds no sofa
+ */
+export function getSofaIdAt(state: GameState, pos: Position): number | null {
+  if (!isInBounds(pos, state.level)) return null;
+  return state.occupancy[pos.y][pos.x];
+}
+
+/**
+ * Find the placed sofa covering a cell, if any
+ */
+export function findSofaAt(state: GameState, pos: Position): SofaPiece | undefined {
+  const sofaId = getSofaIdAt(state, pos);
+  if (sofaId === null) return undefined;
+  return state.sofas.find(sofa => sofa.id === sofaId);
+}
+
+// Check if a cell is empty (can place a sofa)
+function isCellEmpty(grid: CellType[][], level: Level, pos: Position): boolean {
+  if (!isInBounds(pos, level)) return false;
+  return grid[pos.y][pos.x] === 'empty';
+}
+
+/**
+ * Check if a sofa can be placed at a position
+ */
+export function canPlaceSofa(
+  state: GameState,
+  type: SofaType,
+  pos: Position,
+  rotation: Rotation,
+  flipped = false
+): boolean {
+  // Check if we have this sofa type and handedness in inventory
+  if (getInventoryCount(state.inventory, type, flipped) <= 0) {
+    return false;
+  }
+
+  // Check if all cells are empty
+  const cells = getSofaCells(type, pos, rotation, flipped);
+  return cells.every(cell => isCellEmpty(state.grid, state.level, cell));
+}
+
+// Count cells covered by a sofa
+function countSofaCells(occupancy: Occupancy): number {
+  let count = 0;
+  occupancy.forEach(row => {
+    row.forEach(sofaId => {
+      if (sofaId !== null) count++;
+    });
+  });
+  return count;
+}
+
+/**
+ * Check if all sofas are reachable and the door is not blocked
+ *
+ * Reachability is checked per placed piece, so sofas that touch each other
+ * are still judged individually. The answers come from the state's
+ * reachability index, so this does not search the room.
+ *
+ * @returns Diagnostics describing every violated constraint, or a single
+ *          'constraints-ok' diagnostic when the arrangement is valid
+ */
+export function checkConstraints(state: GameState): Diagnostic[] {
+  const { reachability, level } = state;
+
+  if (isDoorBlocked(reachability)) {
+    return [createDiagnostic(
+      'door-blocked',
+      'error',
+      "The door is blocked! Make sure there's at least one empty space next to the door.",
+      { position: level.doorPosition }
+    )];
+  }
+
+  const diagnostics: Diagnostic[] = state.sofas
+    .filter(sofa => !isSofaReachable(reachability, sofa.id))
+    .map(sofa => createDiagnostic(
+      'sofa-unreachable',
+      'error',
+      `Sofa at position (${sofa.position.x}, ${sofa.position.y}) is not reachable! Make sure there's a path to each sofa.`,
+      { position: sofa.position, sofaId: sofa.id }
+    ));
+
+  if (diagnostics.length > 0) {
+    return diagnostics;
+  }
+
+  return [createDiagnostic('constraints-ok', 'success', 'Good job! Keep placing sofas to fill the room.')];
+}
+
+/**
+ * Whether a list of diagnostics contains any constraint violation
+ */
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+/**
+ * Identify empty cells that must stay free to keep every sofa reachable
+ */
+export function getCriticalPaths(state: GameState): Set<string> {
+  const sofaCells = state.sofas.map(sofa => getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped));
+  return identifyCriticalPaths(state.grid, state.level.doorPosition, sofaCells);
+}
+
+// Compare the state after a placement or move with the state before it
+function describeOutcome(state: GameState, next: GameState, cells: Position[]): PlacementPreview {
+  if (next.sofas === state.sofas) {
+    return { cells, status: 'blocked', diagnostics: next.diagnostics };
+  }
+
+  // Only report problems this placement causes, not ones already on the board
+  const errorKey = (diagnostic: Diagnostic) => `${diagnostic.code}:${diagnostic.sofaId ?? ''}`;
+  const existing = new Set(checkConstraints(state).filter(diagnostic => diagnostic.severity === 'error').map(errorKey));
+  const errors = next.diagnostics.filter(diagnostic => diagnostic.severity === 'error' && !existing.has(errorKey(diagnostic)));
+  return { cells, status: errors.length > 0 ? 'unsafe' : 'valid', diagnostics: errors };
+}
+
+/**
+ * Find the sofas that placing a piece would cut off from the door
+ *
+ * Sofas that are already out of reach are not included. Answered from the
+ * reachability index, so it is cheap enough to call for every candidate move.
+ */
+export function findSofasCutOffBy(
+  state: GameState,
+  type: SofaType,
+  pos: Position,
+  rotation: Rotation,
+  flipped = false
+): SofaPiece[] {
+  const cutOff = findCutOffSofas(state.reachability, getSofaCells(type, pos, rotation, flipped && isChiral(type)));
+  return state.sofas.filter(sofa => cutOff.includes(sofa.id));
+}
+
+/**
+ * Work out what placing a piece would do without changing the state
+ *
+ * @returns 'blocked' when the piece can't be placed at all, 'unsafe' when it
+ *          fits but breaks a constraint that holds before it is placed, and
+ *          'valid' otherwise
+ */
+export function previewPlacement(
+  state: GameState,
+  type: SofaType,
+  pos: Position,
+  rotation: Rotation,
+  flipped = false
+): PlacementPreview {
+  flipped = flipped && isChiral(type);
+  const cells = getSofaCells(type, pos, rotation, flipped);
+  return describeOutcome(state, placeSofa(state, type, pos, rotation, flipped), cells);
+}
+
+/**
+ * Work out what moving the sofa covering a cell would do, like previewPlacement
+ */
+export function previewMove(state: GameState, from: Position, to: Position, rotation: Rotation): PlacementPreview {
+  const sofa = findSofaAt(state, from);
+  const cells = sofa ? getSofaCells(sofa.type, to, rotation, sofa.flipped) : [];
+  return describeOutcome(state, moveSofa(state, from, to, rotation), cells);
+}
+
+function placeSofa(state: GameState, type: SofaType, pos: Position, rotation: Rotation, flipped: boolean): GameState {
+  // Mirroring a piece that isn't chiral only gives one of its rotations
+  flipped = flipped && isChiral(type);
+
+  if (!canPlaceSofa(state, type, pos, rotation, flipped)) {
+    if (getInventoryCount(state.inventory, type, flipped) <= 0) {
+      return withDiagnostics(state, [
+        createDiagnostic('out-of-inventory', 'warning', `No more ${getPieceName(type, flipped).toLowerCase()} sofas available in inventory!`)
+      ]);
+    }
+    return withDiagnostics(state, [
+      createDiagnostic('placement-blocked', 'warning', "Can't place sofa here!", { position: pos })
+    ]);
+  }
+
+  const newSofa: SofaPiece = {
+    type,
+    position: pos,
+    rotation,
+    flipped,
+    id: state.nextSofaId
+  };
+
+  const grid = state.grid.map(row => [...row]);
+  const occupancy = state.occupancy.map(row => [...row]);
+  const cells = getSofaCells(type, pos, rotation, flipped);
+  cells.forEach(cell => {
+    grid[cell.y][cell.x] = 'sofa';
+    occupancy[cell.y][cell.x] = newSofa.id;
+  });
+
+  const placed: GameState = {
+    ...state,
+    grid,
+    occupancy,
+    reachability: addPiece(state.reachability, newSofa.id, cells),
+    sofas: [...state.sofas, newSofa],
+    inventory: { ...state.inventory, [getInventoryKey(type, flipped)]: getInventoryCount(state.inventory, type, flipped) - 1 },
+    nextSofaId: state.nextSofaId + 1,
+    score: state.score + cells.length, // Add points based on sofa size
+    lastCheck: null
+  };
+
+  return withDiagnostics(placed, checkConstraints(placed));
+}
+
+function removeSofa(state: GameState, pos: Position): GameState {
+  const sofa = findSofaAt(state, pos);
+  if (!sofa) {
+    return withDiagnostics(state, [
+      createDiagnostic('no-sofa-here', 'warning', 'There is no sofa here to remove.', { position: pos })
+    ]);
+  }
+
+  // Only the cells owned by this piece are cleared, even if other sofas touch it
+  const grid = state.grid.map(row => [...row]);
+  const occupancy = state.occupancy.map(row => [...row]);
+  const cells = getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped);
+  cells.forEach(cell => {
+    grid[cell.y][cell.x] = 'empty';
+    occupancy[cell.y][cell.x] = null;
+  });
+
+  const removed: GameState = {
+    ...state,
+    grid,
+    occupancy,
+    reachability: removePiece(state.reachability, sofa.id, cells),
+    sofas: state.sofas.filter(other => other.id !== sofa.id),
+    inventory: {
+      ...state.inventory,
+      [getInventoryKey(sofa.type, sofa.flipped)]: getInventoryCount(state.inventory, sofa.type, sofa.flipped) + 1
+    },
+    score: countSofaCells(occupancy),
+    removals: state.removals + 1,
+    lastCheck: null
+  };
+
+  return withDiagnostics(removed, [
+    createDiagnostic('sofa-removed', 'info', 'Sofa removed!', { position: sofa.position, sofaId: sofa.id })
+  ]);
+}
+
+function rotateSofa(state: GameState, pos: Position): GameState {
+  const sofa = findSofaAt(state, pos);
+  if (!sofa) {
+    return withDiagnostics(state, [
+      createDiagnostic('no-sofa-here', 'warning', 'There is no sofa here to rotate.', { position: pos })
+    ]);
+  }
+
+  // Rotate clockwise around the anchor cell to the next distinct footprint
+  const rotation = getNextRotation(sofa.type, sofa.rotation);
+  const oldCells = getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped);
+  const newCells = getSofaCells(sofa.type, sofa.position, rotation, sofa.flipped);
+
+  const grid = state.grid.map(row => [...row]);
+  const occupancy = state.occupancy.map(row => [...row]);
+  oldCells.forEach(cell => {
+    grid[cell.y][cell.x] = 'empty';
+    occupancy[cell.y][cell.x] = null;
+  });
+
+  if (!newCells.every(cell => isCellEmpty(grid, state.level, cell))) {
+    return withDiagnostics(state, [
+      createDiagnostic('rotation-blocked', 'warning', "Can't rotate sofa here!", { position: sofa.position, sofaId: sofa.id })
+    ]);
+  }
+
+  newCells.forEach(cell => {
+    grid[cell.y][cell.x] = 'sofa';
+    occupancy[cell.y][cell.x] = sofa.id;
+  });
+
+  const rotated: GameState = {
+    ...state,
+    grid,
+    occupancy,
+    reachability: addPiece(removePiece(state.reachability, sofa.id, oldCells), sofa.id, newCells),
+    sofas: state.sofas.map(other => other.id === sofa.id ? { ...other, rotation } : other),
+    lastCheck: null
+  };
+
+  return withDiagnostics(rotated, checkConstraints(rotated));
+}
+
+function moveSofa(state: GameState, from: Position, to: Position, rotation: Rotation): GameState {
+  const sofa = findSofaAt(state, from);
+  if (!sofa) {
+    return withDiagnostics(state, [
+      createDiagnostic('no-sofa-here', 'warning', 'There is no sofa here to move.', { position: from })
+    ]);
+  }
+
+  const oldCells = getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped);
+  const newCells = getSofaCells(sofa.type, to, rotation, sofa.flipped);
+
+  // The piece may overlap the cells it is leaving
+  const grid = state.grid.map(row => [...row]);
+  const occupancy = state.occupancy.map(row => [...row]);
+  oldCells.forEach(cell => {
+    grid[cell.y][cell.x] = 'empty';
+    occupancy[cell.y][cell.x] = null;
+  });
+
+  if (!newCells.every(cell => isCellEmpty(grid, state.level, cell))) {
+    return withDiagnostics(state, [
+      createDiagnostic('move-blocked', 'warning', "Can't move sofa here!", { position: to, sofaId: sofa.id })
+    ]);
+  }
+
+  newCells.forEach(cell => {
+    grid[cell.y][cell.x] = 'sofa';
+    occupancy[cell.y][cell.x] = sofa.id;
+  });
+
+  // The sofa keeps its id and place in the list, so a move is not a remove plus a place
+  const moved: GameState = {
+    ...state,
+    grid,
+    occupancy,
+    reachability: addPiece(removePiece(state.reachability, sofa.id, oldCells), sofa.id, newCells),
+    sofas: state.sofas.map(other => other.id === sofa.id ? { ...other, position: to, rotation } : other),
+    lastCheck: null
+  };
+
+  return withDiagnostics(moved, checkConstraints(moved));
+}
+
+function checkSolution(state: GameState, elapsedMs?: number): GameState {
+  const constraintDiagnostics = checkConstraints(state);
+  if (hasErrors(constraintDiagnostics)) {
+    return withDiagnostics({ ...state, lastCheck: null }, constraintDiagnostics);
+  }
+
+  // Count empty cells that are not needed to reach a sofa
+  const criticalPaths = getCriticalPaths(state);
+  let fillableEmptyCells = 0;
+
+  for (let y = 0; y < state.grid.length; y++) {
+    for (let x = 0; x < state.grid[y].length; x++) {
+      if (state.grid[y][x] === 'empty' && !criticalPaths.has(`${x},${y}`)) {
+        fillableEmptyCells++;
+      }
+    }
+  }
+
+  const objective = getObjective(state.level);
+  const status = evaluateObjective(state, fillableEmptyCells);
+  const solved = status.met;
+
+  const lastCheck: SolutionCheck = {
+    solved,
+    fillableEmptyCells,
+    criticalPaths: Array.from(criticalPaths)
+  };
+
+  if (solved) {
+    const result = scoreSolution(state, fillableEmptyCells, elapsedMs);
+    return withDiagnostics({ ...state, lastCheck: { ...lastCheck, result } }, [
+      createDiagnostic(
+        'level-complete',
+        'success',
+        `Congratulations! You've successfully arranged the sofas in this room and earned ${formatStars(result.stars)}.`
+      )
+    ]);
+  }
+
+  if (objective.kind === 'max-empty-cells') {
+    return withDiagnostics({ ...state, lastCheck }, [
+      createDiagnostic(
+        'fillable-cells-left',
+        'info',
+        `You can still place more sofas! There are ${fillableEmptyCells} fillable spaces left. Critical paths are highlighted.`
+      )
+    ]);
+  }
+
+  return withDiagnostics({ ...state, lastCheck }, [
+    createDiagnostic(
+      'objective-not-met',
+      'info',
+      `Not there yet: ${describeObjective(objective)} ${describeObjectiveProgress(objective, status)}`
+    )
+  ]);
+}
+
+/**
+ * Apply an action to a game state
+ *
+ * @param state Current game state (never mutated)
+ * @param action Action to apply
+ * @returns The next game state, with diagnostics describing the outcome
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'place':
+      return placeSofa(state, action.sofaType, action.position, action.rotation, action.flipped ?? false);
+    case 'remove':
+      return removeSofa(state, action.position);
+    case 'rotate':
+      return rotateSofa(state, action.position);
+    case 'move':
+      return moveSofa(state, action.position, action.to, action.rotation);
+    case 'reset':
+      return createGameState(action.level ?? state.level);
+    case 'check':
+      return checkSolution(state, action.elapsedMs);
+    default:
+      return state;
+  }
+}
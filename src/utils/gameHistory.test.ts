@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Level } from "@/types/game";
+import { createGameState } from "@/utils/gameEngine";
+import { applyAction, createHistory, jumpTo, redo, undo } from "@/utils/gameHistory";
+import { levelFromAscii } from "@/utils/levelFormat";
+
+const room: Level = levelFromAscii(`
+inventory: single=3
+
+######
+#....#
+D....#
+#....#
+######
+`.trimStart());
+
+const placeSingle = (x: number, y: number) => ({ type: 'place', sofaType: 'single', position: { x, y }, rotation: 0 } as const);
+
+describe("history", () => {
+  it("restores the board and inventory of the entry jumped to", () => {
+    let history = createHistory(createGameState(room));
+    history = applyAction(history, placeSingle(4, 1));
+    history = applyAction(history, placeSingle(4, 3));
+
+    history = jumpTo(history, 1);
+    expect(history.present.sofas).toHaveLength(1);
+    expect(history.present.inventory.single).toBe(2);
+    expect(history.present).toMatchObject({ score: history.entries[1].state.score });
+  });
+
+  it("keeps counting removals when a placement is undone", () => {
+    let history = createHistory(createGameState(room));
+    history = applyAction(history, placeSingle(4, 1));
+    history = undo(history);
+    expect(history.present.sofas).toHaveLength(0);
+    expect(history.present.removals).toBe(1);
+
+    history = redo(history);
+    expect(history.present.sofas).toHaveLength(1);
+    expect(history.present.removals).toBe(1);
+  });
+
+  it("doesn't count the same moves again when scrubbing back and forth", () => {
+    let history = createHistory(createGameState(room));
+    history = applyAction(history, placeSingle(4, 1));
+    history = applyAction(history, placeSingle(4, 3));
+
+    for (let pass = 0; pass < 3; pass++) {
+      history = jumpTo(history, 0);
+      expect(history.present.removals).toBe(2);
+      history = jumpTo(history, 2);
+      expect(history.present.removals).toBe(2);
+    }
+  });
+
+  it("doesn't win back a removal by undoing it", () => {
+    let history = createHistory(createGameState(room));
+    history = applyAction(history, placeSingle(4, 1));
+    history = applyAction(history, { type: 'remove', position: { x: 4, y: 1 } });
+    expect(history.present.removals).toBe(1);
+
+    history = undo(history);
+    expect(history.present.sofas).toHaveLength(1);
+    expect(history.present.removals).toBe(1);
+
+    // A new move after the undo carries the count on
+    history = applyAction(history, placeSingle(4, 3));
+    expect(history.present.removals).toBe(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { GameAction, GameState } from "@/types/game";
+import { gameReducer } from "@/utils/gameEngine";
+import { getPieceName } from "@/utils/pieceCatalog";
+
+/**
+ * Undo/redo timeline over the game engine
+ *
+ * Every successful place, remove or rotate action stores a full snapshot of
+ * the resulting GameState, so stepping through the timeline restores the
+ * board, score, inventory and message exactly as they were. The removal
+ * count is the exception: it only grows, and undoing a placement counts as
+ * taking that sofa off the board, so undo can't win back the no-removals
+ * bonus. It is worked out from the entry jumped to, so scrubbing back and
+ * forth over the same moves doesn't count them again.
+ */
+
+export interface HistoryEntry {
+  action: GameAction | null; // null for the level start
+  label: string;
+  state: GameState;
+}
+
+export interface GameHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown
+  present: GameState; // May carry diagnostics newer than the current entry
+}
+
+// Actions that change the board and therefore become history entries
+const MOVE_ACTIONS: GameAction['type'][] = ['place', 'remove', 'rotate', 'move'];
+
+/**
+ * Describe a move for the history timeline
+ */
+export function describeAction(action: GameAction, before: GameState, after: GameState): string {
+  switch (action.type) {
+    case 'place':
+      return `Placed ${getPieceName(action.sofaType, action.flipped).toLowerCase()} sofa at (${action.position.x}, ${action.position.y})`;
+    case 'remove': {
+      const removed = before.sofas.find(sofa => !after.sofas.some(other => other.id === sofa.id));
+      return removed
+        ? `Removed ${getPieceName(removed.type, removed.flipped).toLowerCase()} sofa at (${removed.position.x}, ${removed.position.y})`
+        : 'Removed sofa';
+    }
+    case 'rotate': {
+      const rotated = after.sofas.find(sofa =>
+        before.sofas.some(other => other.id === sofa.id && other.rotation !== sofa.rotation)
+      );
+      return rotated
+        ? `Rotated ${getPieceName(rotated.type, rotated.flipped).toLowerCase()} sofa to ${rotated.rotation}°`
+        : 'Rotated sofa';
+    }
+    case 'move': {
+      const moved = before.sofas.find(sofa => sofa.id === before.occupancy[action.position.y]?.[action.position.x]);
+      return moved
+        ? `Moved ${getPieceName(moved.type, moved.flipped).toLowerCase()} sofa to (${action.to.x}, ${action.to.y})`
+        : 'Moved sofa';
+    }
+    default:
+      return action.type;
+  }
+}
+
+/**
+ * Start a new timeline from a game state
+ */
+export function createHistory(state: GameState): GameHistory {
+  return {
+    entries: [{ action: null, label: 'Level start', state }],
+    index: 0,
+    present: state
+  };
+}
+
+/**
+ * Apply an action and record it in the timeline
+ *
+ * Moves that change the board drop any redo entries and append a snapshot.
+ * Rejected moves and checks only update the present state, and a reset
+ * starts a fresh timeline.
+ */
+export function applyAction(history: GameHistory, action: GameAction): GameHistory {
+  const before = history.present;
+  const after = gameReducer(before, action);
+
+  if (action.type === 'reset') {
+    return createHistory(after);
+  }
+
+  if (!MOVE_ACTIONS.includes(action.type) || after.sofas === before.sofas) {
+    return { ...history, present: after };
+  }
+
+  const entries = history.entries.slice(0, history.index + 1);
+  entries.push({ action, label: describeAction(action, before, after), state: after });
+
+  return { entries, index: entries.length - 1, present: after };
+}
+
+/**
+ * Move to any point of the timeline
+ */
+export function jumpTo(history: GameHistory, index: number): GameHistory {
+  const target = Math.max(0, Math.min(index, history.entries.length - 1));
+  const state = history.entries[target].state;
+
+  // Sofas placed further along the timeline are taken off by jumping back past them
+  const undone = new Set<number>();
+  history.entries.slice(target + 1).forEach(entry => entry.state.sofas.forEach(sofa => {
+    if (!state.sofas.some(other => other.id === sofa.id)) undone.add(sofa.id);
+  }));
+  const removals = Math.max(history.present.removals, state.removals + undone.size);
+
+  return { ...history, index: target, present: { ...state, removals } };
+}
+
+export function canUndo(history: GameHistory): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: GameHistory): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+export function undo(history: GameHistory): GameHistory {
+  return jumpTo(history, history.index - 1);
+}
+
+export function redo(history: GameHistory): GameHistory {
+  return jumpTo(history, history.index + 1);
+}
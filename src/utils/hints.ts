@@ -0,0 +1,72 @@
+import { GameState, SofaPiece } from "@/types/game";
+import { getSofaCells } from "@/utils/gameEngine";
+import { getPieceName } from "@/utils/pieceCatalog";
+import { SolverOptions, solveLevel } from "@/utils/solver";
+
+/**
+ * Solver-driven hints
+ *
+ * A hint is the next move of a solution that keeps every sofa already on
+ * the board. If no such solution reaches the level's best score, the hint
+ * names a placed sofa to take away instead.
+ */
+
+export type Hint =
+  | { kind: 'place'; piece: SofaPiece; message: string }
+  | { kind: 'remove'; sofa: SofaPiece; message: string }
+  | { kind: 'done'; message: string };
+
+export interface HintOptions extends Pick<SolverOptions, 'onProgress' | 'shouldStop'> {
+  timeLimitMs?: number; // Budget for each solver run
+}
+
+const DEFAULT_TIME_LIMIT_MS = 1000;
+
+// Two sofas cover exactly the same cells
+function isSamePlacement(a: SofaPiece, b: SofaPiece): boolean {
+  if (a.type !== b.type || a.flipped !== b.flipped) return false;
+  const cellsA = getSofaCells(a.type, a.position, a.rotation, a.flipped).map(cell => `${cell.x},${cell.y}`).sort();
+  const cellsB = getSofaCells(b.type, b.position, b.rotation, b.flipped).map(cell => `${cell.x},${cell.y}`).sort();
+  return cellsA.join(';') === cellsB.join(';');
+}
+
+/**
+ * Suggest the next move for a game state
+ */
+export function getHint(state: GameState, options: HintOptions = {}): Hint {
+  const { onProgress, shouldStop } = options;
+  const timeLimitMs = options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS;
+  const best = solveLevel(state.level, { timeLimitMs, onProgress, shouldStop });
+  const current = solveLevel(state.level, { timeLimitMs, fixed: state.sofas, onProgress, shouldStop });
+
+  if (current.feasible && current.score >= best.score) {
+    const next = current.placements.find(piece => !state.sofas.some(sofa => sofa.id === piece.id));
+    if (!next) {
+      return { kind: 'done', message: 'No better arrangement exists. Check your solution!' };
+    }
+    return {
+      kind: 'place',
+      piece: next,
+      message: `Hint: place one ${getPieceName(next.type, next.flipped).toLowerCase()} sofa at (${next.position.x}, ${next.position.y}) rotated ${next.rotation}°.`
+    };
+  }
+
+  // Find a sofa whose removal lets the board reach the best score again,
+  // trying the most recently placed first
+  const candidates = [...state.sofas].reverse();
+  const blocking = candidates.find(sofa => {
+    const others = state.sofas.filter(other => other.id !== sofa.id);
+    const result = solveLevel(state.level, { timeLimitMs: timeLimitMs / candidates.length, fixed: others, onProgress, shouldStop });
+    return result.feasible && result.score >= best.score;
+  }) ?? candidates.find(sofa => !best.placements.some(piece => isSamePlacement(piece, sofa)));
+
+  if (!blocking) {
+    return { kind: 'done', message: 'No hint available for this arrangement.' };
+  }
+
+  return {
+    kind: 'remove',
+    sofa: blocking,
+    message: `Hint: this arrangement can't reach the best score of ${best.score}. Remove the ${getPieceName(blocking.type, blocking.flipped).toLowerCase()} sofa at (${blocking.position.x}, ${blocking.position.y}) first.`
+  };
+}
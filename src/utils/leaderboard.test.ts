@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { getCampaignLevel } from "@/utils/campaign";
+import { toDateKey } from "@/utils/dailyChallenge";
+import { ScoreSubmission, SubmissionError, getDailyLevelId, getLevelForId, submissionSchema, verifySubmission } from "@/utils/leaderboard";
+import { solveLevel } from "@/utils/solver";
+
+const solvedFirstLevel = (): ScoreSubmission => ({
+  level: 'campaign-1',
+  player: 'Tester',
+  placements: solveLevel(getCampaignLevel(0)).placements.map(({ type, position, rotation, flipped }) => ({
+    type, position, rotation, flipped
+  }))
+});
+
+// Run a submission and return the SubmissionError it was turned away with
+const rejection = (submission: ScoreSubmission): SubmissionError => {
+  try {
+    verifySubmission(submission);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SubmissionError);
+    return error as SubmissionError;
+  }
+  throw new Error('The submission was accepted');
+};
+
+describe("verifySubmission", () => {
+  it("scores a finished room", () => {
+    const result = verifySubmission(solvedFirstLevel());
+    expect(result.cellsFilled).toBe(10);
+    expect(result.par).toBe(10);
+  });
+
+  it("rejects an unfinished room and placements the engine refuses", () => {
+    const submission = solvedFirstLevel();
+    expect(rejection({ ...submission, placements: submission.placements.slice(1) }).reason).toBe('rejected');
+
+    const twice = [...submission.placements, submission.placements[0]];
+    expect(rejection({ ...submission, placements: twice }).message).toMatch(/was rejected/);
+  });
+
+  it("turns engine errors into rejections", () => {
+    // Bypasses the schema, as a caller that skipped validation would
+    const submission = { ...solvedFirstLevel(), placements: [{ type: 'toString', position: { x: 1, y: 1 }, rotation: 0 as const }] };
+    expect(rejection(submission).reason).toBe('rejected');
+  });
+
+  it("only accepts ids of levels that can be ranked", () => {
+    const submission = solvedFirstLevel();
+    for (const level of ['campaign-0', 'campaign-101', 'campaign-9999', 'daily-2999-01-01', 'daily-2024-13-01', 'daily-2020-01-01', 'seed-1-80-v2', 'seed-1', 'nonsense']) {
+      expect(rejection({ ...submission, level }).reason).toBe('unknown-level');
+    }
+  });
+});
+
+describe("submissionSchema", () => {
+  it("rejects piece types that aren't in the catalog", () => {
+    for (const type of ['toString', '__proto__', 'constructor', 'sofa-bed']) {
+      const parsed = submissionSchema.safeParse({
+        level: 'campaign-1',
+        player: 'Tester',
+        placements: [{ type, position: { x: 1, y: 1 }, rotation: 0 }]
+      });
+      expect(parsed.success).toBe(false);
+    }
+  });
+});
+
+describe("getDailyLevelId", () => {
+  it("ranks dailies from a year back up to tomorrow", () => {
+    const now = new Date(2026, 5, 15, 12).getTime();
+    expect(getDailyLevelId('2026-06-16', now)).toBe('daily-2026-06-16');
+    expect(getDailyLevelId('2025-06-15', now)).toBe('daily-2025-06-15');
+    expect(getDailyLevelId('2026-06-17', now)).toBeNull();
+    expect(getDailyLevelId('2025-06-14', now)).toBeNull();
+  });
+});
+
+describe("getLevelForId", () => {
+  it("builds each level once", () => {
+    expect(getLevelForId('campaign-1')).toBe(getCampaignLevel(0));
+    const today = `daily-${toDateKey(new Date())}`;
+    expect(getLevelForId(today)).toBe(getLevelForId(today));
+  });
+});
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { Level, LevelResult, StarRating } from "@/types/game";
+import { getCampaignLevel } from "@/utils/campaign";
+import { generateDailyLevel, parseDateKey, toDateKey } from "@/utils/dailyChallenge";
+import { createGameState, gameReducer, hasErrors } from "@/utils/gameEngine";
+import { isKnownPiece } from "@/utils/pieceCatalog";
+
+/**
+ * Leaderboard
+ *
+ * Shared by the /api/scores route and the game page. A submission names a
+ * level by id and lists the sofas of the finished room; the server rebuilds
+ * the level, replays the placements through the engine and only accepts the
+ * entry if every placement fits, the constraints hold and the room passes
+ * its objective. The score on the board is the number of covered cells,
+ * since the time and no-removal bonuses can't be checked from a final
+ * arrangement.
+ *
+ * Level ids:
+ *
+ * - `campaign-<n>`: campaign level n, counting from 1, up to MAX_RANKED_CAMPAIGN_LEVEL
+ * - `daily-<YYYY-MM-DD>`: the daily challenge of a date, from RANKED_DAILY_DAYS
+ *   ago up to tomorrow
+ *
+ * Generated rooms are solved while they are built, which blocks the server
+ * for a noticeable time, so only this bounded set of ids is ranked and each
+ * level is built at most once. Custom rooms, generated from any seed, have
+ * no leaderboard.
+ */
+
+export const MAX_PLAYER_NAME_LENGTH = 24;
+const MAX_PLACEMENTS = 500;
+// The campaign never ends, but only its opening levels are ranked
+export const MAX_RANKED_CAMPAIGN_LEVEL = 100;
+// Dailies stay ranked for a year
+export const RANKED_DAILY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SubmissionError extends Error {
+  constructor(message: string, public readonly reason: 'unknown-level' | 'rejected' = 'rejected') {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+const positionSchema = z.object({
+  x: z.number().int(),
+  y: z.number().int()
+});
+
+export const submissionSchema = z.object({
+  level: z.string().min(1),
+  player: z.string().trim().min(1, 'Enter a name').max(MAX_PLAYER_NAME_LENGTH),
+  placements: z.array(z.object({
+    type: z.string().refine(isKnownPiece, 'Unknown piece'),
+    position: positionSchema,
+    rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]),
+    flipped: z.boolean().optional()
+  })).max(MAX_PLACEMENTS)
+});
+
+export type ScoreSubmission = z.infer<typeof submissionSchema>;
+
+export interface LeaderboardEntry {
+  player: string;
+  score: number;
+  stars: StarRating;
+  scoringVersion: number;
+  submittedAt: string; // ISO date
+}
+
+/**
+ * Leaderboard id of a campaign level, or null past the ranked levels
+ */
+export function getCampaignLevelId(levelIndex: number): string | null {
+  return levelIndex < MAX_RANKED_CAMPAIGN_LEVEL ? `campaign-${levelIndex + 1}` : null;
+}
+
+/**
+ * Leaderboard id of a daily challenge, or null once it is no longer ranked
+ */
+export function getDailyLevelId(dateKey: string, now = Date.now()): string | null {
+  return isRankedDaily(dateKey, now) ? `daily-${dateKey}` : null;
+}
+
+// Players ahead of the server's time zone may already be on tomorrow's room
+function isRankedDaily(dateKey: string, now: number): boolean {
+  return parseDateKey(dateKey) !== null
+    && dateKey >= toDateKey(new Date(now - RANKED_DAILY_DAYS * DAY_MS))
+    && dateKey <= toDateKey(new Date(now + DAY_MS));
+}
+
+// Levels built so far; the ranked ids are few enough to keep them all
+const levelCache = new Map<string, Level>();
+
+function buildLevelForId(id: string): Level | null {
+  const campaign = id.match(/^campaign-(\d{1,3})$/);
+  if (campaign && Number(campaign[1]) >= 1 && Number(campaign[1]) <= MAX_RANKED_CAMPAIGN_LEVEL) {
+    return getCampaignLevel(Number(campaign[1]) - 1);
+  }
+
+  const daily = id.match(/^daily-(\d{4}-\d{2}-\d{2})$/);
+  if (daily && isRankedDaily(daily[1], Date.now())) {
+    return generateDailyLevel(daily[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Rebuild the level a leaderboard id stands for
+ *
+ * @returns The level, or null for ids that don't name one
+ */
+export function getLevelForId(id: string): Level | null {
+  const cached = levelCache.get(id);
+  if (cached) return cached;
+
+  const level = buildLevelForId(id);
+  if (level) levelCache.set(id, level);
+  return level;
+}
+
+/**
+ * Replay a submission through the engine and score it
+ *
+ * @throws SubmissionError explaining why the arrangement is not accepted
+ */
+export function verifySubmission(submission: ScoreSubmission): LevelResult {
+  const level = getLevelForId(submission.level);
+  if (!level) {
+    throw new SubmissionError(`Unknown level "${submission.level}"`, 'unknown-level');
+  }
+
+  try {
+    let state = createGameState(level);
+    submission.placements.forEach((placement, index) => {
+      const next = gameReducer(state, {
+        type: 'place',
+        sofaType: placement.type,
+        position: placement.position,
+        rotation: placement.rotation,
+        flipped: placement.flipped
+      });
+      if (next.sofas === state.sofas) {
+        throw new SubmissionError(`Placement ${index + 1} was rejected: ${next.message}`);
+      }
+      state = next;
+    });
+
+    if (hasErrors(state.diagnostics)) {
+      throw new SubmissionError(state.message);
+    }
+
+    const checked = gameReducer(state, { type: 'check' });
+    if (!checked.lastCheck?.result) {
+      throw new SubmissionError(`The room isn't finished: ${checked.message}`);
+    }
+    return checked.lastCheck.result;
+  } catch (error) {
+    // Whatever the engine can't make sense of is a bad submission, not a server fault
+    if (error instanceof SubmissionError) throw error;
+    throw new SubmissionError(`Invalid placements: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Top entries of a level, best first
+ */
+export async function fetchScores(levelId: string): Promise<LeaderboardEntry[]> {
+  const response = await fetch(`/api/scores?level=${encodeURIComponent(levelId)}`);
+  if (!response.ok) {
+    throw new Error(`Couldn't load the leaderboard (${response.status})`);
+  }
+  return (await response.json()).entries;
+}
+
+/**
+ * Send a finished room to the leaderboard
+ *
+ * @returns The stored entry and its place on the level's leaderboard
+ * @throws Error with the server's reason when the entry is rejected
+ */
+export async function submitScore(submission: ScoreSubmission): Promise<{ entry: LeaderboardEntry; rank: number }> {
+  const response = await fetch('/api/scores', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission)
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error ?? `Couldn't submit the score (${response.status})`);
+  }
+  return body;
+}
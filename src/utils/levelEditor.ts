@@ -0,0 +1,267 @@
+import { Level, Position } from "@/types/game";
+import { levelFromJson, levelToJson } from "@/utils/levelFormat";
+import { findUnreachableObjective } from "@/utils/objectives";
+
+/**
+ * Level editing helpers
+ *
+ * Pure functions used by the /editor page to build and check levels, plus
+ * the hand-off that lets the game page play-test a level being edited.
+ */
+
+export type EditorTool = 'wall' | 'floor' | 'door';
+
+export interface LevelIssue {
+  code: 'door-not-on-perimeter' | 'door-leads-nowhere' | 'unreachable-floor' | 'empty-inventory' | 'objective-out-of-reach';
+  severity: 'error' | 'warning';
+  message: string;
+  positions: Position[];
+}
+
+export const MIN_LEVEL_SIZE = 4;
+export const MAX_LEVEL_SIZE = 16;
+
+// Session storage keys for play-testing a level from the editor
+const PLAYTEST_STORAGE_KEY = 'friheten-playtest-level';
+const DRAFT_STORAGE_KEY = 'friheten-editor-draft';
+
+// Directions: right, left, down, up
+const directions = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+const isPerimeter = (pos: Position, width: number, height: number): boolean =>
+  pos.x === 0 || pos.y === 0 || pos.x === width - 1 || pos.y === height - 1;
+
+const samePosition = (a: Position, b: Position): boolean => a.x === b.x && a.y === b.y;
+
+/**
+ * Create a walled room with the door in the middle of the left wall
+ */
+export function createBlankLevel(width: number, height: number): Level {
+  const doorPosition = { x: 0, y: Math.floor(height / 2) };
+  const walls: Position[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = { x, y };
+      if (isPerimeter(pos, width, height) && !samePosition(pos, doorPosition)) {
+        walls.push(pos);
+      }
+    }
+  }
+
+  return {
+    name: 'Custom Room',
+    width,
+    height,
+    walls,
+    doorPosition,
+    inventory: { single: 2, rectangular: 2, 'l-shaped': 1 }
+  };
+}
+
+/**
+ * Resize a level, moving the outer walls to the new edge and keeping interior walls that still fit
+ */
+export function resizeLevel(level: Level, width: number, height: number): Level {
+  const { x: doorX, y: doorY } = level.doorPosition;
+  const isCorner = (doorX === 0 || doorX === width - 1) && (doorY === 0 || doorY === height - 1);
+  const doorFits = doorX < width && doorY < height && isPerimeter(level.doorPosition, width, height) && !isCorner;
+  const doorPosition = doorFits ? level.doorPosition : { x: 0, y: Math.floor(height / 2) };
+
+  const walls = level.walls.filter(wall =>
+    wall.x < width - 1 && wall.y < height - 1 && wall.x > 0 && wall.y > 0 &&
+    !isPerimeter(wall, level.width, level.height)
+  );
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = { x, y };
+      if (isPerimeter(pos, width, height) && !samePosition(pos, doorPosition)) {
+        walls.push(pos);
+      }
+    }
+  }
+
+  return {
+    ...level,
+    width,
+    height,
+    walls,
+    doorPosition,
+    par: undefined
+  };
+}
+
+/**
+ * Paint a cell with an editor tool
+ */
+export function paintCell(level: Level, pos: Position, tool: EditorTool): Level {
+  const walls = level.walls.filter(wall => !samePosition(wall, pos));
+
+  if (tool === 'door') {
+    // The old door becomes a wall so the perimeter stays closed
+    return {
+      ...level,
+      walls: samePosition(level.doorPosition, pos) ? walls : [...walls, level.doorPosition],
+      doorPosition: pos,
+      par: undefined
+    };
+  }
+
+  // The door can only be moved, not painted over
+  if (samePosition(level.doorPosition, pos)) return level;
+
+  return {
+    ...level,
+    walls: tool === 'wall' ? [...walls, pos] : walls,
+    par: undefined
+  };
+}
+
+/**
+ * Set how many pieces the level offers for an inventory key; keys set to zero are left out
+ */
+export function setInventoryCount(level: Level, key: string, count: number): Level {
+  const inventory = { ...level.inventory };
+  if (count > 0) {
+    inventory[key] = count;
+  } else {
+    delete inventory[key];
+  }
+  return { ...level, inventory, par: undefined };
+}
+
+/**
+ * Check a level layout for problems that would make it unplayable
+ */
+export function validateLevelLayout(level: Level): LevelIssue[] {
+  const { width, height, doorPosition } = level;
+  const issues: LevelIssue[] = [];
+
+  const isWall: boolean[][] = Array(height).fill(null).map(() => Array(width).fill(false));
+  level.walls.forEach(wall => {
+    isWall[wall.y][wall.x] = true;
+  });
+  const isFloor = (pos: Position) =>
+    pos.x >= 0 && pos.x < width && pos.y >= 0 && pos.y < height &&
+    !isWall[pos.y][pos.x] && !samePosition(pos, doorPosition);
+
+  if (!isPerimeter(doorPosition, width, height)) {
+    issues.push({
+      code: 'door-not-on-perimeter',
+      severity: 'error',
+      message: 'The door must be on the outer wall of the room.',
+      positions: [doorPosition]
+    });
+  }
+
+  // The first door-adjacent floor cell is where the engine starts its reachability search
+  const entrance = directions
+    .map(dir => ({ x: doorPosition.x + dir.x, y: doorPosition.y + dir.y }))
+    .find(isFloor);
+
+  if (!entrance) {
+    issues.push({
+      code: 'door-leads-nowhere',
+      severity: 'error',
+      message: 'The door must open onto an empty floor cell.',
+      positions: [doorPosition]
+    });
+  }
+
+  // Flood fill from the entrance to find floor cells the door can't reach
+  const reached: boolean[][] = Array(height).fill(null).map(() => Array(width).fill(false));
+  if (entrance) {
+    const queue: Position[] = [entrance];
+    reached[entrance.y][entrance.x] = true;
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      for (const dir of directions) {
+        const next = { x: current.x + dir.x, y: current.y + dir.y };
+        if (isFloor(next) && !reached[next.y][next.x]) {
+          reached[next.y][next.x] = true;
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  const unreachable: Position[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isFloor({ x, y }) && !reached[y][x]) unreachable.push({ x, y });
+    }
+  }
+
+  if (entrance && unreachable.length > 0) {
+    issues.push({
+      code: 'unreachable-floor',
+      severity: 'error',
+      message: `${unreachable.length} floor cell${unreachable.length === 1 ? '' : 's'} can't be reached from the door, starting at (${unreachable[0].x}, ${unreachable[0].y}).`,
+      positions: unreachable
+    });
+  }
+
+  if (Object.values(level.inventory).every(count => count === 0)) {
+    issues.push({
+      code: 'empty-inventory',
+      severity: 'warning',
+      message: 'The inventory is empty, so there is nothing to place.',
+      positions: []
+    });
+  }
+
+  const objectiveProblem = findUnreachableObjective(level);
+  if (objectiveProblem) {
+    issues.push({
+      code: 'objective-out-of-reach',
+      severity: 'error',
+      message: objectiveProblem,
+      positions: []
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Hand a level to the game page for play-testing
+ */
+export function savePlaytestLevel(level: Level): void {
+  sessionStorage.setItem(PLAYTEST_STORAGE_KEY, levelToJson(level));
+}
+
+/**
+ * Read the level handed over by the editor, if any
+ */
+export function loadPlaytestLevel(): Level | null {
+  const stored = sessionStorage.getItem(PLAYTEST_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return levelFromJson(stored);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep the editor's work across navigation to the play-test and back
+ */
+export function saveEditorDraft(level: Level): void {
+  sessionStorage.setItem(DRAFT_STORAGE_KEY, levelToJson(level));
+}
+
+export function loadEditorDraft(): Level | null {
+  const stored = sessionStorage.getItem(DRAFT_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return levelFromJson(stored);
+  } catch {
+    return null;
+  }
+}
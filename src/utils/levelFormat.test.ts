@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Level } from "@/types/game";
+import { getCampaignLevel } from "@/utils/campaign";
+import {
+  LEVEL_FORMAT,
+  LevelFormatError,
+  levelFileName,
+  levelFromAscii,
+  levelFromJson,
+  levelToAscii,
+  levelToJson,
+  parseLevelFile
+} from "@/utils/levelFormat";
+
+const level: Level = {
+  ...getCampaignLevel(1),
+  seed: 42,
+  generatorVersion: 2,
+  par: 16,
+  inventory: { single: 2, 'l-shaped': 1, 'l-shaped:flipped': 1 },
+  objective: { kind: 'seats', seats: 6 }
+};
+
+// Parse and return the LevelFormatError message the text is rejected with
+const formatError = (parse: (text: string) => Level, text: string): string => {
+  try {
+    parse(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(LevelFormatError);
+    return (error as Error).message;
+  }
+  throw new Error('The level was accepted');
+};
+
+describe("level files", () => {
+  it("round-trips a level through JSON and ASCII", () => {
+    expect(levelFromJson(levelToJson(level))).toEqual(level);
+    expect(levelFromAscii(levelToAscii(level))).toEqual(level);
+  });
+
+  it("reads version 1 files as levels without an objective", () => {
+    const { objective, ...plain } = level;
+    expect(objective).toBeDefined();
+
+    const json = JSON.stringify({ format: LEVEL_FORMAT, version: 1, level: plain });
+    expect(levelFromJson(json)).toEqual(plain);
+    expect(levelFromAscii(levelToAscii(plain).replace('version: 2', 'version: 1'))).toEqual(plain);
+  });
+
+  it("names the field or line that is wrong", () => {
+    const file = JSON.parse(levelToJson(level));
+    file.level.walls[3] = { x: 99, y: 0 };
+    expect(formatError(levelFromJson, JSON.stringify(file))).toBe('Field "level.walls[3]": Wall is outside the room');
+    expect(formatError(levelFromJson, '{')).toMatch(/^Invalid JSON/);
+
+    expect(formatError(levelFromAscii, 'version: 1\ninventory: single=1\nobjective: seats 2\n\nD..\n...\n...\n'))
+      .toBe('Line 3: Objectives need version 2');
+    expect(formatError(levelFromAscii, 'inventory: sofa-bed=1\n\nD..\n...\n...\n')).toBe('Line 1: Unknown sofa type "sofa-bed"');
+    expect(formatError(levelFromAscii, 'inventory: single=1\n\nD..\n..\n...\n')).toBe('Line 4: Map row has 2 cells, expected 3');
+    expect(formatError(levelFromAscii, 'inventory: single=1\n\nD..\n.D.\n...\n')).toMatch(/^Line 4: Second door/);
+    expect(formatError(levelFromAscii, 'inventory: single=1\n\n...\n...\n...\n')).toBe('Map has no door ("D")');
+  });
+
+  it("picks the format from the file extension", () => {
+    expect(parseLevelFile('Room.JSON', levelToJson(level))).toEqual(level);
+    expect(parseLevelFile('room.txt', levelToAscii(level))).toEqual(level);
+    expect(formatError(text => parseLevelFile('room.xml', text), '')).toMatch(/^Unsupported file type/);
+    expect(levelFileName({ ...level, name: 'Level 2: Cozy Corner!' }, 'txt')).toBe('level-2-cozy-corner.txt');
+  });
+});
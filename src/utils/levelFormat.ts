@@ -0,0 +1,421 @@
+import { z } from "zod";
+import { Level, LevelObjective, Position, SofaInventory } from "@/types/game";
+import { isKnownInventoryKey } from "@/utils/pieceCatalog";
+
+/**
+ * Level file format
+ *
+ * Levels can be stored in two forms:
+ *
+ * - JSON (`.json`): `{ "format": "friheten-level", "version": 2, "level": { ... } }`,
+ *   validated with zod.
+ * - ASCII (`.txt`): `key: value` header lines, a blank line, then one map row
+ *   per line using `#` for walls, `D` for the door and `.` for floor:
+ *
+ *   ```
+ *   version: 2
+ *   name: Small Room
+ *   inventory: single=3 rectangular=2 l-shaped=1
+ *   objective: seats 6
+ *
+ *   ######
+ *   D....#
+ *   ######
+ *   ```
+ *
+ * The objective header is optional and takes the objective kind followed by
+ * its target, if it has one: `fill-cells 12`, `use-all-pieces`,
+ * `max-empty-cells 3` or `seats 6`.
+ *
+ * Version 2 added objectives. Version 1 files are still read, as levels
+ * without one; files are always written as the current version.
+ *
+ * Both forms reject invalid input with a LevelFormatError naming the bad
+ * field or line.
+ */
+
+export const LEVEL_FORMAT = 'friheten-level';
+export const LEVEL_FORMAT_VERSION = 2;
+// Oldest version that is still read
+const MIN_LEVEL_FORMAT_VERSION = 1;
+// First version with level objectives
+const OBJECTIVE_FORMAT_VERSION = 2;
+
+const WALL_CHAR = '#';
+const DOOR_CHAR = 'D';
+const FLOOR_CHAR = '.';
+
+export class LevelFormatError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(location ? `${location}: ${message}` : message);
+    this.name = 'LevelFormatError';
+  }
+}
+
+const positionSchema = z.object({
+  x: z.number().int().min(0),
+  y: z.number().int().min(0)
+});
+
+// Counts keyed by piece catalog id, or "<id>:flipped" for the mirrored handedness
+// of a chiral piece; pieces left out are not available
+const inventorySchema = z.record(z.string(), z.number().int().min(0)).superRefine((inventory, ctx) => {
+  for (const id of Object.keys(inventory)) {
+    if (!isKnownInventoryKey(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [id], message: `Unknown sofa type "${id}"` });
+    }
+  }
+});
+
+const objectiveSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('fill-cells'), cells: z.number().int().min(1) }),
+  z.object({ kind: z.literal('use-all-pieces') }),
+  z.object({ kind: z.literal('max-empty-cells'), cells: z.number().int().min(0) }),
+  z.object({ kind: z.literal('seats'), seats: z.number().int().min(1) })
+]);
+
+const levelSchema = z.object({
+  name: z.string().min(1),
+  width: z.number().int().min(3).max(100),
+  height: z.number().int().min(3).max(100),
+  walls: z.array(positionSchema),
+  doorPosition: positionSchema,
+  inventory: inventorySchema,
+  seed: z.number().int().min(0).optional(),
+  generatorVersion: z.number().int().min(1).optional(),
+  par: z.number().int().min(0).optional(),
+  objective: objectiveSchema.optional()
+}).superRefine((level, ctx) => {
+  const inBounds = (pos: Position) => pos.x < level.width && pos.y < level.height;
+
+  level.walls.forEach((wall, index) => {
+    if (!inBounds(wall)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['walls', index], message: 'Wall is outside the room' });
+    } else if (wall.x === level.doorPosition.x && wall.y === level.doorPosition.y) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['walls', index], message: 'Wall overlaps the door' });
+    }
+  });
+
+  if (!inBounds(level.doorPosition)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['doorPosition'], message: 'Door is outside the room' });
+  }
+});
+
+const levelFileSchema = z.object({
+  format: z.literal(LEVEL_FORMAT),
+  version: z.number().int().min(MIN_LEVEL_FORMAT_VERSION).max(LEVEL_FORMAT_VERSION, {
+    message: `Unsupported version (expected ${LEVEL_FORMAT_VERSION} or older)`
+  }),
+  level: levelSchema
+});
+
+export type LevelFile = z.infer<typeof levelFileSchema>;
+
+// Format a zod path like ['level', 'walls', 3, 'x'] as "level.walls[3].x"
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, part) =>
+    typeof part === 'number' ? `${result}[${part}]` : result ? `${result}.${part}` : part,
+  '');
+}
+
+// Validate a plain object as a level, reporting the first bad field
+function validateLevel(data: unknown, pathPrefix: (string | number)[] = []): Level {
+  const result = levelSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LevelFormatError(issue.message, `Field "${formatPath([...pathPrefix, ...issue.path])}"`);
+  }
+  return result.data;
+}
+
+/**
+ * Serialize a level to the JSON file format
+ */
+export function levelToJson(level: Level): string {
+  const file: LevelFile = {
+    format: LEVEL_FORMAT,
+    version: LEVEL_FORMAT_VERSION,
+    level: {
+      name: level.name,
+      width: level.width,
+      height: level.height,
+      walls: level.walls,
+      doorPosition: level.doorPosition,
+      inventory: level.inventory,
+      ...(level.seed !== undefined && { seed: level.seed }),
+      ...(level.generatorVersion !== undefined && { generatorVersion: level.generatorVersion }),
+      ...(level.par !== undefined && { par: level.par }),
+      ...(level.objective !== undefined && { objective: level.objective })
+    }
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and validate a level from the JSON file format
+ *
+ * @throws LevelFormatError naming the invalid field
+ */
+export function levelFromJson(text: string): Level {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LevelFormatError(`Invalid JSON (${(error as Error).message})`);
+  }
+
+  const result = levelFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new LevelFormatError(issue.message, `Field "${formatPath(issue.path)}"`);
+  }
+
+  const level = validateLevel(result.data.level, ['level']);
+  if (level.objective && result.data.version < OBJECTIVE_FORMAT_VERSION) {
+    throw new LevelFormatError(`Objectives need version ${OBJECTIVE_FORMAT_VERSION}`, 'Field "level.objective"');
+  }
+  return level;
+}
+
+/**
+ * Serialize a level to the ASCII file format
+ */
+export function levelToAscii(level: Level): string {
+  const rows: string[][] = Array(level.height).fill(null).map(() => Array(level.width).fill(FLOOR_CHAR));
+  level.walls.forEach(wall => {
+    rows[wall.y][wall.x] = WALL_CHAR;
+  });
+  rows[level.doorPosition.y][level.doorPosition.x] = DOOR_CHAR;
+
+  const { inventory } = level;
+  const header = [
+    `version: ${LEVEL_FORMAT_VERSION}`,
+    `name: ${level.name}`,
+    `inventory: ${Object.entries(inventory).map(([id, count]) => `${id}=${count}`).join(' ')}`
+  ];
+  if (level.seed !== undefined) header.push(`seed: ${level.seed}`);
+  if (level.generatorVersion !== undefined) header.push(`generator: ${level.generatorVersion}`);
+  if (level.par !== undefined) header.push(`par: ${level.par}`);
+  if (level.objective !== undefined) header.push(`objective: ${formatObjective(level.objective)}`);
+
+  return [...header, '', ...rows.map(row => row.join(''))].join('\n') + '\n';
+}
+
+// Format an objective as "seats 6" or "use-all-pieces"
+function formatObjective(objective: LevelObjective): string {
+  switch (objective.kind) {
+    case 'fill-cells':
+    case 'max-empty-cells':
+      return `${objective.kind} ${objective.cells}`;
+    case 'seats':
+      return `${objective.kind} ${objective.seats}`;
+    case 'use-all-pieces':
+      return objective.kind;
+  }
+}
+
+// Parse "seats 6", "max-empty-cells 3" or "use-all-pieces"
+function parseObjective(value: string, lineNumber: number): LevelObjective {
+  const [kind, target, ...rest] = value.split(/\s+/);
+  const needsTarget = kind !== 'use-all-pieces';
+  if (rest.length > 0 || (needsTarget && target === undefined) || (!needsTarget && target !== undefined)) {
+    throw new LevelFormatError(
+      'Expected "fill-cells N", "use-all-pieces", "max-empty-cells N" or "seats N"',
+      `Line ${lineNumber}`
+    );
+  }
+
+  const amount = needsTarget ? parseHeaderNumber(target, 'objective', lineNumber) : 0;
+  const objective = kind === 'seats' ? { kind, seats: amount } : needsTarget ? { kind, cells: amount } : { kind };
+
+  const result = objectiveSchema.safeParse(objective);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const message = issue.path[0] === 'kind' ? `Unknown objective "${kind}"` : `Objective ${issue.message.toLowerCase()}`;
+    throw new LevelFormatError(message, `Line ${lineNumber}`);
+  }
+  return result.data;
+}
+
+// Parse "single=3 rectangular=2 chaise=1 chaise:flipped=1"
+function parseInventory(value: string, lineNumber: number): SofaInventory {
+  const inventory: Record<string, number> = {};
+
+  for (const part of value.split(/\s+/).filter(Boolean)) {
+    const match = part.match(/^([a-z0-9-]+(?::flipped)?)=(\d+)$/);
+    if (!match) {
+      throw new LevelFormatError(`Expected "type=count", got "${part}"`, `Line ${lineNumber}`);
+    }
+    if (!isKnownInventoryKey(match[1])) {
+      throw new LevelFormatError(`Unknown sofa type "${match[1]}"`, `Line ${lineNumber}`);
+    }
+    inventory[match[1]] = Number(match[2]);
+  }
+
+  const result = inventorySchema.safeParse(inventory);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `"${formatPath(issue.path)}" ` : '';
+    throw new LevelFormatError(`Inventory ${field}${issue.message.toLowerCase()}`, `Line ${lineNumber}`);
+  }
+  return result.data;
+}
+
+// Parse a non-negative integer header value
+function parseHeaderNumber(value: string, key: string, lineNumber: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new LevelFormatError(`"${key}" must be a whole number`, `Line ${lineNumber}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Parse and validate a level from the ASCII file format
+ *
+ * @throws LevelFormatError naming the invalid line
+ */
+export function levelFromAscii(text: string): Level {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let lineIndex = 0;
+
+  // Header: "key: value" lines up to the first blank line
+  let name = 'Imported Level';
+  let inventory: SofaInventory | null = null;
+  let seed: number | undefined;
+  let generatorVersion: number | undefined;
+  let par: number | undefined;
+  let objective: LevelObjective | undefined;
+  let version = LEVEL_FORMAT_VERSION;
+  let objectiveLine = 0;
+
+  for (; lineIndex < lines.length && lines[lineIndex].trim() !== ''; lineIndex++) {
+    const lineNumber = lineIndex + 1;
+    const match = lines[lineIndex].match(/^\s*([a-z]+)\s*:\s*(.*?)\s*$/);
+    if (!match) {
+      throw new LevelFormatError('Expected a "key: value" header line', `Line ${lineNumber}`);
+    }
+
+    const [, key, value] = match;
+    switch (key) {
+      case 'version':
+        version = parseHeaderNumber(value, key, lineNumber);
+        if (version < MIN_LEVEL_FORMAT_VERSION || version > LEVEL_FORMAT_VERSION) {
+          throw new LevelFormatError(`Unsupported version ${value} (expected ${LEVEL_FORMAT_VERSION} or older)`, `Line ${lineNumber}`);
+        }
+        break;
+      case 'name':
+        name = value;
+        break;
+      case 'inventory':
+        inventory = parseInventory(value, lineNumber);
+        break;
+      case 'seed':
+        seed = parseHeaderNumber(value, key, lineNumber);
+        break;
+      case 'generator':
+        generatorVersion = parseHeaderNumber(value, key, lineNumber);
+        break;
+      case 'par':
+        par = parseHeaderNumber(value, key, lineNumber);
+        break;
+      case 'objective':
+        objective = parseObjective(value, lineNumber);
+        objectiveLine = lineNumber;
+        break;
+      default:
+        throw new LevelFormatError(`Unknown header "${key}"`, `Line ${lineNumber}`);
+    }
+  }
+
+  if (!inventory) {
+    throw new LevelFormatError('Missing "inventory" header');
+  }
+  if (objective && version < OBJECTIVE_FORMAT_VERSION) {
+    throw new LevelFormatError(`Objectives need version ${OBJECTIVE_FORMAT_VERSION}`, `Line ${objectiveLine}`);
+  }
+
+  // Skip blank lines between header and map
+  while (lineIndex < lines.length && lines[lineIndex].trim() === '') lineIndex++;
+
+  const mapStart = lineIndex;
+  const rows: string[] = [];
+  for (; lineIndex < lines.length && lines[lineIndex].trim() !== ''; lineIndex++) {
+    rows.push(lines[lineIndex].trimEnd());
+  }
+
+  // Only blank lines may follow the map
+  for (; lineIndex < lines.length; lineIndex++) {
+    if (lines[lineIndex].trim() !== '') {
+      throw new LevelFormatError('Unexpected content after the map', `Line ${lineIndex + 1}`);
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new LevelFormatError('Missing map');
+  }
+
+  const width = rows[0].length;
+  const walls: Position[] = [];
+  let doorPosition: Position | null = null;
+
+  rows.forEach((row, y) => {
+    const lineNumber = mapStart + y + 1;
+    if (row.length !== width) {
+      throw new LevelFormatError(`Map row has ${row.length} cells, expected ${width}`, `Line ${lineNumber}`);
+    }
+
+    for (let x = 0; x < row.length; x++) {
+      const char = row[x];
+      if (char === WALL_CHAR) {
+        walls.push({ x, y });
+      } else if (char === DOOR_CHAR) {
+        if (doorPosition) {
+          throw new LevelFormatError(`Second door at column ${x + 1}; a level has exactly one door`, `Line ${lineNumber}`);
+        }
+        doorPosition = { x, y };
+      } else if (char !== FLOOR_CHAR) {
+        throw new LevelFormatError(
+          `Unexpected "${char}" at column ${x + 1} (use "${WALL_CHAR}", "${DOOR_CHAR}" or "${FLOOR_CHAR}")`,
+          `Line ${lineNumber}`
+        );
+      }
+    }
+  });
+
+  if (!doorPosition) {
+    throw new LevelFormatError(`Map has no door ("${DOOR_CHAR}")`);
+  }
+
+  return validateLevel({
+    name,
+    width,
+    height: rows.length,
+    walls,
+    doorPosition,
+    inventory,
+    ...(seed !== undefined && { seed }),
+    ...(generatorVersion !== undefined && { generatorVersion }),
+    ...(par !== undefined && { par }),
+    ...(objective !== undefined && { objective })
+  });
+}
+
+/**
+ * Parse a level file, picking the format from its extension
+ *
+ * @throws LevelFormatError for unsupported extensions or invalid content
+ */
+export function parseLevelFile(fileName: string, text: string): Level {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.json')) return levelFromJson(text);
+  if (lower.endsWith('.txt')) return levelFromAscii(text);
+  throw new LevelFormatError(`Unsupported file type "${fileName}" (use .json or .txt)`);
+}
+
+/**
+ * Build a file name for a level export
+ */
+export function levelFileName(level: Level, extension: 'json' | 'txt'): string {
+  const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'level';
+  return `${slug}.${extension}`;
+}
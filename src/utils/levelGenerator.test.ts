@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { GENERATOR_VERSION, generateLevel } from "@/utils/levelGenerator";
+import { levelToAscii } from "@/utils/levelFormat";
+
+// Room part of the ASCII form, without the header
+const roomMap = (level: Parameters<typeof levelToAscii>[0]) => levelToAscii(level).split('\n\n')[1].trim();
+
+describe("generateLevel", () => {
+  it("gives the same level for the same seed, complexity and version", () => {
+    expect(generateLevel(0.6, 4, 987654)).toEqual(generateLevel(0.6, 4, 987654));
+    expect(generateLevel(0.6, 4, 987654).generatorVersion).toBe(GENERATOR_VERSION);
+  });
+
+  // Shared seeds must keep their rooms across releases; these are the rooms seed 1 has always produced
+  it("keeps producing the rooms of every generator version", () => {
+    const v1 = generateLevel(0.8, 7, 1, 1);
+    expect(v1).toMatchObject({ name: 'Level 7: Small Interesting Loft', generatorVersion: 1, seed: 1 });
+    expect(roomMap(v1)).toBe([
+      '########',
+      '#..#...#',
+      '#..#.#.#',
+      'D..#####',
+      '#..##.##',
+      '#..#...#',
+      '##...#.#',
+      '########'
+    ].join('\n'));
+
+    const v2 = generateLevel(0.8, 7, 1, 2);
+    expect(v2).toMatchObject({ name: 'Level 7: Small Cozy Apartment', generatorVersion: 2, seed: 1, par: 7 });
+    expect(roomMap(v2)).toBe([
+      '###D###',
+      '#.....#',
+      '#..#..#',
+      '#.....#',
+      '#...#.#',
+      '#.#...#',
+      '#######'
+    ].join('\n'));
+  });
+
+  it("refuses versions it can't reproduce", () => {
+    expect(() => generateLevel(0.5, 1, 1, 0)).toThrow(RangeError);
+    expect(() => generateLevel(0.5, 1, 1, GENERATOR_VERSION + 1)).toThrow(RangeError);
+  });
+});
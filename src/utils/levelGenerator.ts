@@ -1,4 +1,33 @@
 import { Position, SofaInventory, Level } from "@/types/game";
+import { Random, createRandom, createSeed } from "@/utils/random";
+import { verifyLevel } from "@/utils/solver";
+
+// Version of the generation algorithm. Bump it whenever a change makes an
+// existing seed produce a different level, so shared seeds can be traced
+// back to the generator that produced them. Older versions stay available
+// through generateLevel's `version` so their seeds keep their rooms.
+// v1: the first room with enough usable space
+// v2: candidates that the solver cannot win are rejected, and par is recorded
+export const GENERATOR_VERSION = 2;
+
+// Versions generateLevel can still reproduce, oldest first
+export const GENERATOR_VERSIONS = [1, 2];
+
+// Search budget for solving each candidate level. A node limit rather than a
+// time limit, so the same seed gives the same level on any machine.
+const VERIFY_MAX_NODES = 100000;
+
+// Unwinnable candidates to reject before lowering the complexity
+const MAX_UNWINNABLE_ATTEMPTS = 5;
+
+// Unwinnable candidates to reject before falling back to the template room.
+// Complexity reaches zero well before this, so seeds that ever finished keep
+// their room; it only stops seeds that would otherwise never finish.
+const MAX_ATTEMPTS = 100;
+
+// Open room used when no candidate works out; level 1 of the campaign is the same shape
+const TEMPLATE_SIZE = 6;
+const TEMPLATE_INVENTORY: SofaInventory = { single: 3, rectangular: 2, 'l-shaped': 1 };
 
 // Level complexity settings
 export interface ComplexitySettings {
@@ -17,15 +46,130 @@ export interface GeneratedLevel {
   doorPosition: Position;
   name: string;
   inventory: SofaInventory;
+  seed: number;
+  generatorVersion: number;
+  par: number; // Best score the solver found
 }
 
 /**
  * Generate a random level based on complexity settings
+ *
+ * Every candidate room is solved before it is accepted, so generated levels
+ * can always be completed and carry their par. The same (seed, complexity,
+ * version) always produces the same level. If MAX_ATTEMPTS candidates can't
+ * be won, the level is a plain template room instead.
+ *
+ * @param complexity 0-1 scale
+ * @param levelNumber Number shown in the level name
+ * @param seed Seed recorded on the level; a fresh one is picked if omitted
+ * @param version Generator version to reproduce, one of GENERATOR_VERSIONS
+ * @param random PRNG to draw from, seeded from `seed` by default
+ * @throws RangeError for versions this generator can't reproduce
  */
 export function generateLevel(
-  complexity: number, // 0-1 scale
-  levelNumber: number
+  complexity: number,
+  levelNumber: number,
+  seed: number = createSeed(),
+  version: number = GENERATOR_VERSION,
+  random: Random = createRandom(seed)
 ): GeneratedLevel {
+  if (!GENERATOR_VERSIONS.includes(version)) {
+    throw new RangeError(`Unknown generator version ${version}`);
+  }
+
+  // v1 kept the first room with enough space, whether or not it could be won
+  if (version === 1) {
+    const room = generateRoom(complexity, levelNumber, seed, version, random);
+    return { ...room, par: verifyLevel(room, { maxNodes: VERIFY_MAX_NODES }).par };
+  }
+
+  let currentComplexity = complexity;
+  let unwinnableAttempts = 0;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const candidate = generateRoom(currentComplexity, levelNumber, seed, version, random);
+    const verification = verifyLevel(candidate, { maxNodes: VERIFY_MAX_NODES });
+
+    if (verification.winnable) {
+      return { ...candidate, par: verification.par };
+    }
+
+    // Drop the candidate; after a few failures make the room simpler
+    unwinnableAttempts++;
+    if (unwinnableAttempts >= MAX_UNWINNABLE_ATTEMPTS) {
+      currentComplexity = Math.max(0, currentComplexity - 0.1);
+      unwinnableAttempts = 0;
+    }
+  }
+
+  return generateTemplateLevel(levelNumber, seed, version);
+}
+
+/**
+ * Open square room with the door on the left, used when generation gives up
+ */
+function generateTemplateLevel(levelNumber: number, seed: number, version: number): GeneratedLevel {
+  const grid: string[][] = Array(TEMPLATE_SIZE)
+    .fill(null)
+    .map(() => Array(TEMPLATE_SIZE).fill("empty"));
+  addOuterWalls(grid);
+
+  const walls: Position[] = [];
+  for (let y = 0; y < TEMPLATE_SIZE; y++) {
+    for (let x = 0; x < TEMPLATE_SIZE; x++) {
+      if (grid[y][x] === "wall" && !(x === 0 && y === 2)) {
+        walls.push({ x, y });
+      }
+    }
+  }
+
+  const level = {
+    width: TEMPLATE_SIZE,
+    height: TEMPLATE_SIZE,
+    walls,
+    doorPosition: { x: 0, y: 2 },
+    name: `Level ${levelNumber}: Simple Room`,
+    inventory: { ...TEMPLATE_INVENTORY },
+    seed,
+    generatorVersion: version
+  };
+  return { ...level, par: verifyLevel(level, { maxNodes: VERIFY_MAX_NODES }).par };
+}
+
+/**
+ * Generate one room with enough usable space, before checking that it can be won
+ *
+ * Rooms without enough space are generated again with slightly lower
+ * complexity, continuing the same random sequence. At zero complexity the
+ * room is a small open square, which always has the space.
+ */
+function generateRoom(
+  complexity: number,
+  levelNumber: number,
+  seed: number,
+  version: number,
+  random: Random
+): Omit<GeneratedLevel, 'par'> {
+  let currentComplexity = complexity;
+  for (;;) {
+    const room = generateCandidate(currentComplexity, levelNumber, seed, version, random);
+    if (room) return room;
+    currentComplexity = Math.max(0, currentComplexity - 0.1);
+  }
+}
+
+/**
+ * Generate one candidate room
+ *
+ * @returns The room, or null if it doesn't leave enough usable space
+ */
+function generateCandidate(
+  complexity: number,
+  levelNumber: number,
+  seed: number,
+  version: number,
+  random: Random
+): Omit<GeneratedLevel, 'par'> | null {
   // Scale complexity to actual settings
   const width = Math.floor(6 + complexity * 6); // 6-12
   const height = Math.floor(6 + complexity * 6); // 6-12
@@ -65,23 +209,22 @@ export function generateLevel(
   if (settings.roomComplexity > 0.3) {
     if (settings.roomComplexity > 0.7) {
       // Complex room with multiple sections
-      createComplexRoom(grid, settings);
+      createComplexRoom(grid, settings, random);
     } else {
       // L-shaped or U-shaped room
-      createShapedRoom(grid, settings);
+      createShapedRoom(grid, settings, random);
     }
   }
 
   // Add some random interior walls
-  addInteriorWalls(grid, settings);
+  addInteriorWalls(grid, settings, random);
 
   // Place door in a valid position
-  const doorPosition = placeDoor(grid);
+  const doorPosition = placeDoor(grid, random);
 
   // Ensure the level is valid (has enough empty spaces, door is accessible)
   if (!validateLevel(grid, doorPosition, settings)) {
-    // If invalid, try again with slightly lower complexity
-    return generateLevel(Math.max(0, complexity - 0.1), levelNumber);
+    return null;
   }
 
   // Convert grid to walls array
@@ -99,8 +242,10 @@ export function generateLevel(
     height: settings.height,
     walls,
     doorPosition,
-    name: `Level ${levelNumber}: ${getLevelName(settings)}`,
-    inventory: settings.inventory
+    name: `Level ${levelNumber}: ${getLevelName(settings, random)}`,
+    inventory: settings.inventory,
+    seed,
+    generatorVersion: version
   };
 }
 
@@ -127,12 +272,12 @@ function addOuterWalls(grid: string[][]): void {
 /**
  * Create an L-shaped or U-shaped room
  */
-function createShapedRoom(grid: string[][], settings: ComplexitySettings): void {
+function createShapedRoom(grid: string[][], settings: ComplexitySettings, random: Random): void {
   const height = grid.length;
   const width = grid[0].length;
   
   // Decide on L or U shape
-  const isUShape = Math.random() > 0.5 && settings.roomComplexity > 0.5;
+  const isUShape = random() > 0.5 && settings.roomComplexity > 0.5;
   
   // Calculate wall positions
   const wallStartX = Math.floor(width * 0.4);
@@ -160,7 +305,7 @@ function createShapedRoom(grid: string[][], settings: ComplexitySettings): void
 /**
  * Create a complex room with multiple sections
  */
-function createComplexRoom(grid: string[][], settings: ComplexitySettings): void {
+function createComplexRoom(grid: string[][], settings: ComplexitySettings, random: Random): void {
   const height = grid.length;
   const width = grid[0].length;
   
@@ -169,16 +314,16 @@ function createComplexRoom(grid: string[][], settings: ComplexitySettings): void
   
   for (let i = 0; i < numDividers; i++) {
     // Decide if horizontal or vertical divider
-    const isHorizontal = Math.random() > 0.5;
+    const isHorizontal = random() > 0.5;
     
     if (isHorizontal) {
       // Horizontal divider
-      const y = Math.floor(height * 0.3 + Math.random() * height * 0.4);
-      const startX = Math.floor(1 + Math.random() * (width * 0.3));
-      const endX = Math.floor(width * 0.7 + Math.random() * (width * 0.3) - 1);
+      const y = Math.floor(height * 0.3 + random() * height * 0.4);
+      const startX = Math.floor(1 + random() * (width * 0.3));
+      const endX = Math.floor(width * 0.7 + random() * (width * 0.3) - 1);
       
       // Add a gap somewhere in the divider
-      const gapPos = Math.floor(startX + Math.random() * (endX - startX - 1));
+      const gapPos = Math.floor(startX + random() * (endX - startX - 1));
       
       for (let x = startX; x <= endX; x++) {
         if (x !== gapPos) {
@@ -187,12 +332,12 @@ function createComplexRoom(grid: string[][], settings: ComplexitySettings): void
       }
     } else {
       // Vertical divider
-      const x = Math.floor(width * 0.3 + Math.random() * width * 0.4);
-      const startY = Math.floor(1 + Math.random() * (height * 0.3));
-      const endY = Math.floor(height * 0.7 + Math.random() * (height * 0.3) - 1);
+      const x = Math.floor(width * 0.3 + random() * width * 0.4);
+      const startY = Math.floor(1 + random() * (height * 0.3));
+      const endY = Math.floor(height * 0.7 + random() * (height * 0.3) - 1);
       
       // Add a gap somewhere in the divider
-      const gapPos = Math.floor(startY + Math.random() * (endY - startY - 1));
+      const gapPos = Math.floor(startY + random() * (endY - startY - 1));
       
       for (let y = startY; y <= endY; y++) {
         if (y !== gapPos) {
@@ -206,7 +351,7 @@ function createComplexRoom(grid: string[][], settings: ComplexitySettings): void
 /**
  * Add random interior walls
  */
-function addInteriorWalls(grid: string[][], settings: ComplexitySettings): void {
+function addInteriorWalls(grid: string[][], settings: ComplexitySettings, random: Random): void {
   const height = grid.length;
   const width = grid[0].length;
   
@@ -217,8 +362,8 @@ function addInteriorWalls(grid: string[][], settings: ComplexitySettings): void
   // Add random walls
   let wallsAdded = 0;
   while (wallsAdded < numWalls) {
-    const x = Math.floor(1 + Math.random() * (width - 2));
-    const y = Math.floor(1 + Math.random() * (height - 2));
+    const x = Math.floor(1 + random() * (width - 2));
+    const y = Math.floor(1 + random() * (height - 2));
     
     // Only add wall if cell is empty
     if (grid[y][x] === "empty") {
@@ -231,7 +376,7 @@ function addInteriorWalls(grid: string[][], settings: ComplexitySettings): void
 /**
  * Place a door in a valid position on the outer wall
  */
-function placeDoor(grid: string[][]): Position {
+function placeDoor(grid: string[][], random: Random): Position {
   const height = grid.length;
   const width = grid[0].length;
   
@@ -252,7 +397,7 @@ function placeDoor(grid: string[][]): Position {
   
   // Shuffle possible positions
   for (let i = possiblePositions.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [possiblePositions[i], possiblePositions[j]] = [possiblePositions[j], possiblePositions[i]];
   }
   
@@ -363,7 +508,7 @@ function validateLevel(
 /**
  * Generate a descriptive name for the level based on its characteristics
  */
-function getLevelName(settings: ComplexitySettings): string {
+function getLevelName(settings: ComplexitySettings, random: Random): string {
   const sizeNames = ["Small", "Medium", "Large", "Huge"];
   const sizeIndex = Math.min(
     Math.floor((settings.width + settings.height) / 12) - 1,
@@ -389,7 +534,7 @@ function getLevelName(settings: ComplexitySettings): string {
     "Loft",
     "Suite"
   ];
-  const roomTypeIndex = Math.floor(Math.random() * roomTypes.length);
+  const roomTypeIndex = Math.floor(random() * roomTypes.length);
   
   return `${sizeNames[sizeIndex]} ${complexityNames[complexityIndex]} ${roomTypes[roomTypeIndex]}`;
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { GameState, Level, LevelObjective } from "@/types/game";
+import { getInventoryCells, getInventorySeats, getPieceSeats } from "@/utils/pieceCatalog";
+
+/**
+ * Level objectives
+ *
+ * A level says what counts as winning through its objective. Levels without
+ * one use DEFAULT_OBJECTIVE, the original rule of filling the room until at
+ * most three fillable cells are left. Every objective also needs the usual
+ * constraints (door clear, every sofa reachable), which the engine checks
+ * before it gets here.
+ */
+
+export const DEFAULT_OBJECTIVE: LevelObjective = { kind: 'max-empty-cells', cells: 3 };
+
+export interface ObjectiveStatus {
+  met: boolean;
+  current: number; // Cells covered, pieces placed, fillable cells left or people seated
+  target: number;
+}
+
+export function getObjective(level: Level): LevelObjective {
+  return level.objective ?? DEFAULT_OBJECTIVE;
+}
+
+/**
+ * Count the people the sofas on the board seat
+ */
+export function countSeats(state: GameState): number {
+  return state.sofas.reduce((total, sofa) => total + getPieceSeats(sofa.type), 0);
+}
+
+/**
+ * Check a game state against its level's objective
+ *
+ * @param state Game state that already passes the constraints
+ * @param fillableEmptyCells Empty cells off the critical paths
+ */
+export function evaluateObjective(state: GameState, fillableEmptyCells: number): ObjectiveStatus {
+  const objective = getObjective(state.level);
+  const piecesLeft = Object.values(state.inventory).reduce((total, count) => total + count, 0);
+
+  switch (objective.kind) {
+    case 'fill-cells':
+      return { met: state.score >= objective.cells, current: state.score, target: objective.cells };
+    case 'use-all-pieces':
+      return { met: piecesLeft === 0, current: state.sofas.length, target: state.sofas.length + piecesLeft };
+    case 'max-empty-cells':
+      // With nothing left to place the room is as full as it gets
+      return {
+        met: fillableEmptyCells <= objective.cells || piecesLeft === 0,
+        current: fillableEmptyCells,
+        target: objective.cells
+      };
+    case 'seats': {
+      const seats = countSeats(state);
+      return { met: seats >= objective.seats, current: seats, target: objective.seats };
+    }
+  }
+}
+
+/**
+ * One-line description of an objective for the player
+ */
+export function describeObjective(objective: LevelObjective): string {
+  switch (objective.kind) {
+    case 'fill-cells':
+      return `Cover at least ${objective.cells} cells with sofas.`;
+    case 'use-all-pieces':
+      return 'Place every sofa in the inventory.';
+    case 'max-empty-cells':
+      return objective.cells === 0
+        ? 'Fill the room until no sofa fits anymore.'
+        : `Fill the room until at most ${objective.cells} spaces could still take a sofa.`;
+    case 'seats':
+      return `Seat at least ${objective.seats} people.`;
+  }
+}
+
+/**
+ * How far a state is from meeting its objective
+ */
+export function describeObjectiveProgress(objective: LevelObjective, status: ObjectiveStatus): string {
+  switch (objective.kind) {
+    case 'fill-cells':
+      return `${status.current} of ${status.target} cells covered.`;
+    case 'use-all-pieces':
+      return `${status.current} of ${status.target} sofas placed.`;
+    case 'max-empty-cells':
+      return `${status.current} fillable spaces left.`;
+    case 'seats':
+      return `${status.current} of ${status.target} people seated.`;
+  }
+}
+
+/**
+ * Explain why a level's inventory can never meet its objective, or return null
+ */
+export function findUnreachableObjective(level: Level): string | null {
+  const objective = getObjective(level);
+
+  if (objective.kind === 'fill-cells' && getInventoryCells(level.inventory) < objective.cells) {
+    return `The inventory covers only ${getInventoryCells(level.inventory)} cells, short of the ${objective.cells} the objective asks for.`;
+  }
+  if (objective.kind === 'seats' && getInventorySeats(level.inventory) < objective.seats) {
+    return `The inventory seats only ${getInventorySeats(level.inventory)} people, short of the ${objective.seats} the objective asks for.`;
+  }
+  return null;
+}
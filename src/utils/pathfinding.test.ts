@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { CellType, Position } from "@/types/game";
+import { identifyCriticalPaths } from "@/utils/pathfinding";
+import { createRandom } from "@/utils/random";
+
+const directions = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+// Empty cells reachable from a start cell
+const floodFill = (grid: CellType[][], start: Position): Set<string> => {
+  const reached = new Set<string>();
+  const queue = grid[start.y][start.x] === 'empty' ? [start] : [];
+  queue.forEach(pos => reached.add(`${pos.x},${pos.y}`));
+  while (queue.length > 0) {
+    const pos = queue.shift()!;
+    for (const dir of directions) {
+      const next = { x: pos.x + dir.x, y: pos.y + dir.y };
+      if (grid[next.y]?.[next.x] === 'empty' && !reached.has(`${next.x},${next.y}`)) {
+        reached.add(`${next.x},${next.y}`);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+};
+
+// Sofas with an empty cell next to them that the door can reach
+const countReachableSofas = (grid: CellType[][], entrance: Position, sofas: Position[][]): number => {
+  const reached = floodFill(grid, entrance);
+  return sofas.filter(cells => cells.some(cell =>
+    directions.some(dir => reached.has(`${cell.x + dir.x},${cell.y + dir.y}`))
+  )).length;
+};
+
+// The definition, cell by cell: filling it blocks the door or cuts a reachable sofa off
+const bruteForceCriticalPaths = (grid: CellType[][], entrance: Position, sofas: Position[][]): Set<string> => {
+  const critical = new Set<string>();
+  const reachable = countReachableSofas(grid, entrance, sofas);
+  floodFill(grid, entrance).forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    const filled = grid.map(row => [...row]);
+    filled[y][x] = 'sofa';
+    if ((x === entrance.x && y === entrance.y) || countReachableSofas(filled, entrance, sofas) < reachable) {
+      critical.add(key);
+    }
+  });
+  return critical;
+};
+
+// A walled room with its door on the left and random inner walls and single-cell sofas
+const randomRoom = (seed: number) => {
+  const random = createRandom(seed);
+  const width = 5 + Math.floor(random() * 5);
+  const height = 5 + Math.floor(random() * 5);
+  const door = { x: 0, y: 1 + Math.floor(random() * (height - 2)) };
+  const sofas: Position[][] = [];
+  const grid: CellType[][] = Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => {
+    if (x === door.x && y === door.y) return 'door';
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return 'wall';
+    if (x === 1 && y === door.y) return 'empty';
+    const roll = random();
+    if (roll < 0.15) return 'wall';
+    if (roll < 0.3) {
+      sofas.push([{ x, y }]);
+      return 'sofa';
+    }
+    return 'empty';
+  }));
+  return { grid, door, entrance: { x: 1, y: door.y }, sofas };
+};
+
+describe("identifyCriticalPaths", () => {
+  it("marks the corridor to a sofa and not the open floor around it", () => {
+    const grid: CellType[][] = [
+      ['wall', 'wall', 'wall', 'wall', 'wall', 'wall'],
+      ['door', 'empty', 'empty', 'empty', 'empty', 'wall'],
+      ['wall', 'wall', 'empty', 'wall', 'empty', 'wall'],
+      ['wall', 'wall', 'empty', 'wall', 'sofa', 'wall'],
+      ['wall', 'wall', 'wall', 'wall', 'wall', 'wall']
+    ];
+    const critical = identifyCriticalPaths(grid, { x: 0, y: 1 }, [[{ x: 4, y: 3 }]]);
+    expect(Array.from(critical).sort()).toEqual(['1,1', '2,1', '3,1', '4,1', '4,2']);
+  });
+
+  it("finds nothing when the door is blocked", () => {
+    const grid: CellType[][] = [
+      ['wall', 'wall', 'wall'],
+      ['door', 'sofa', 'empty'],
+      ['wall', 'wall', 'wall']
+    ];
+    expect(identifyCriticalPaths(grid, { x: 0, y: 1 }, [[{ x: 1, y: 1 }]]).size).toBe(0);
+  });
+
+  it("matches filling every cell in turn on random rooms", () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const { grid, door, entrance, sofas } = randomRoom(seed);
+      const expected = bruteForceCriticalPaths(grid, entrance, sofas);
+      expect(Array.from(identifyCriticalPaths(grid, door, sofas)).sort(), `seed ${seed}`).toEqual(Array.from(expected).sort());
+    }
+  });
+});
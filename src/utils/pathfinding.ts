@@ -5,20 +5,37 @@ import { Position, CellType } from "@/types/game";
  * 
  * This implementation finds the shortest path from a start position to a target position
  * on a grid, avoiding walls and other obstacles.
+ *
+ * The searches run over integer cell indices (y * width + x) and typed arrays
+ * rather than position objects and string keys, because the engine calls them
+ * many times per click. Position keys are only built for the public results.
  */
 
-// Node for A* algorithm
-interface PathNode {
-  position: Position;
-  g: number; // Cost from start to current node
-  h: number; // Heuristic (estimated cost from current to goal)
-  f: number; // Total cost (g + h)
-  parent: PathNode | null;
+// Directions: right, left, down, up
+const directions: Position[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+// Flat view of a grid: 1 for walkable (empty) cells, indexed by y * width + x
+interface WalkableGrid {
+  width: number;
+  height: number;
+  walkable: Uint8Array;
 }
 
-// Calculate Manhattan distance between two positions (heuristic function)
-function heuristic(a: Position, b: Position): number {
-  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+function toWalkableGrid(grid: CellType[][]): WalkableGrid {
+  const height = grid.length;
+  const width = grid[0].length;
+  const walkable = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grid[y][x] === 'empty') walkable[y * width + x] = 1;
+    }
+  }
+  return { width, height, walkable };
 }
 
 // Check if a position is within the grid bounds
@@ -26,16 +43,69 @@ function isInBounds(pos: Position, grid: CellType[][]): boolean {
   return pos.x >= 0 && pos.x < grid[0].length && pos.y >= 0 && pos.y < grid.length;
 }
 
-// Check if a position is walkable (empty cell)
-function isWalkable(pos: Position, grid: CellType[][]): boolean {
-  return grid[pos.y][pos.x] === 'empty';
-}
-
 // Get the key for a position (for use in maps)
 function positionKey(pos: Position): string {
   return `${pos.x},${pos.y}`;
 }
 
+// Index of the cell next to a cell index in the given direction, or -1 outside the grid
+function neighborIndex(index: number, dir: Position, width: number, height: number): number {
+  const x = index % width + dir.x;
+  const y = Math.floor(index / width) + dir.y;
+  return x >= 0 && x < width && y >= 0 && y < height ? y * width + x : -1;
+}
+
+function indexToPosition(index: number, width: number): Position {
+  return { x: index % width, y: Math.floor(index / width) };
+}
+
+/**
+ * Binary min-heap of cell indices for the A* open set
+ *
+ * Entries keep the priority they were pushed with. A cell whose cost improves
+ * is pushed again instead of being updated in place, and the stale entry is
+ * skipped when it is popped after the cell has been closed.
+ */
+function createMinHeap(capacity: number) {
+  const cells = new Int32Array(capacity);
+  const priorities = new Float64Array(capacity);
+  let size = 0;
+
+  const push = (cell: number, priority: number) => {
+    let child = size++;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (priorities[parent] <= priority) break;
+      cells[child] = cells[parent];
+      priorities[child] = priorities[parent];
+      child = parent;
+    }
+    cells[child] = cell;
+    priorities[child] = priority;
+  };
+
+  const pop = (): number => {
+    const top = cells[0];
+    const lastCell = cells[--size];
+    const lastPriority = priorities[size];
+    let parent = 0;
+    while (true) {
+      let child = parent * 2 + 1;
+      if (child >= size) break;
+      if (child + 1 < size && priorities[child + 1] < priorities[child]) child++;
+      if (priorities[child] >= lastPriority) break;
+      cells[parent] = cells[child];
+      priorities[parent] = priorities[child];
+      parent = child;
+    }
+    cells[parent] = lastCell;
+    priorities[parent] = lastPriority;
+    return top;
+  };
+
+  return { push, pop, isEmpty: () => size === 0 };
+}
+
 /**
  * Find the shortest path from start to target using A* algorithm
  * 
@@ -50,114 +120,62 @@ export function findPath(start: Position, target: Position, grid: CellType[][]):
     return null;
   }
 
+  const { width, height, walkable } = toWalkableGrid(grid);
+  const size = width * height;
+  const startIndex = start.y * width + start.x;
+  const targetIndex = target.y * width + target.x;
+
   // If target is not walkable, return null
-  if (!isWalkable(target, grid)) {
+  if (!walkable[targetIndex]) {
     return null;
   }
 
-  // Initialize open and closed sets
-  const openSet: Map<string, PathNode> = new Map();
-  const closedSet: Set<string> = new Set();
-
-  // Create start node
-  const startNode: PathNode = {
-    position: start,
-    g: 0,
-    h: heuristic(start, target),
-    f: heuristic(start, target),
-    parent: null
-  };
+  // Manhattan distance to the target
+  const heuristic = (index: number) =>
+    Math.abs(index % width - target.x) + Math.abs(Math.floor(index / width) - target.y);
 
-  // Add start node to open set
-  openSet.set(positionKey(start), startNode);
-
-  // Directions: right, left, down, up
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 }
-  ];
-
-  // While there are nodes to explore
-  while (openSet.size > 0) {
-    // Find node with lowest f score
-    let currentKey = '';
-    let currentNode: PathNode | undefined;
-    let lowestF = Infinity;
-
-    // Use forEach instead of for...of to avoid TypeScript iteration issues
-    openSet.forEach((node, key) => {
-      if (node.f < lowestF) {
-        lowestF = node.f;
-        currentKey = key;
-        currentNode = node;
-      }
-    });
+  const g = new Int32Array(size).fill(-1); // Cost from start, -1 until a cell is first reached
+  const parent = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  // Every cell can be pushed once per neighbour that improves it
+  const openSet = createMinHeap(size * directions.length + 1);
 
-    if (!currentNode) {
-      break; // No path found
-    }
+  // Order by f, breaking ties towards the target so straight runs are explored first
+  const priority = (index: number) => {
+    const h = heuristic(index);
+    return (g[index] + h) * (size + 1) + h;
+  };
 
-    // Remove current node from open set
-    openSet.delete(currentKey);
+  g[startIndex] = 0;
+  openSet.push(startIndex, priority(startIndex));
 
-    // Add current node to closed set
-    closedSet.add(currentKey);
+  while (!openSet.isEmpty()) {
+    const current = openSet.pop();
+    if (closed[current]) continue; // Stale entry for a cell already expanded at a lower cost
+    closed[current] = 1;
 
     // If we reached the target, reconstruct and return the path
-    if (currentNode.position.x === target.x && currentNode.position.y === target.y) {
+    if (current === targetIndex) {
       const path: Position[] = [];
-      let current: PathNode | null = currentNode;
-
-      while (current) {
-        path.unshift(current.position);
-        current = current.parent;
+      for (let cell = current; cell !== -1; cell = parent[cell]) {
+        path.push(indexToPosition(cell, width));
       }
-
-      return path;
+      return path.reverse();
     }
 
-    // Check all neighbors
     for (const dir of directions) {
-      const neighborPos: Position = {
-        x: currentNode.position.x + dir.x,
-        y: currentNode.position.y + dir.y
-      };
-
-      // Skip if out of bounds or not walkable
-      if (!isInBounds(neighborPos, grid) || !isWalkable(neighborPos, grid)) {
-        continue;
-      }
-
-      const neighborKey = positionKey(neighborPos);
+      const neighbor = neighborIndex(current, dir, width, height);
 
-      // Skip if already evaluated
-      if (closedSet.has(neighborKey)) {
+      // Skip if out of bounds, not walkable or already evaluated
+      if (neighbor === -1 || !walkable[neighbor] || closed[neighbor]) {
         continue;
       }
 
-      // Calculate g score for this neighbor
-      const tentativeG = currentNode.g + 1;
-
-      // Check if this neighbor is already in the open set
-      const existingNeighbor = openSet.get(neighborKey);
-      
-      if (!existingNeighbor) {
-        // New node, add to open set
-        const neighborNode: PathNode = {
-          position: neighborPos,
-          g: tentativeG,
-          h: heuristic(neighborPos, target),
-          f: tentativeG + heuristic(neighborPos, target),
-          parent: currentNode
-        };
-        openSet.set(neighborKey, neighborNode);
-      } else if (tentativeG < existingNeighbor.g) {
-        // Better path to existing node, update it
-        existingNeighbor.g = tentativeG;
-        existingNeighbor.f = tentativeG + existingNeighbor.h;
-        existingNeighbor.parent = currentNode;
+      const tentativeG = g[current] + 1;
+      if (g[neighbor] === -1 || tentativeG < g[neighbor]) {
+        g[neighbor] = tentativeG;
+        parent[neighbor] = current;
+        openSet.push(neighbor, priority(neighbor));
       }
     }
   }
@@ -166,6 +184,29 @@ export function findPath(start: Position, target: Position, grid: CellType[][]):
   return null;
 }
 
+// Breadth-first search over walkable cells; returns the visited cells in order
+function floodFill(startIndex: number, { width, height, walkable }: WalkableGrid, visited: Uint8Array): Int32Array {
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  visited[startIndex] = 1;
+  queue[tail++] = startIndex;
+
+  while (head < tail) {
+    const current = queue[head++];
+    for (const dir of directions) {
+      const neighbor = neighborIndex(current, dir, width, height);
+      if (neighbor !== -1 && walkable[neighbor] && !visited[neighbor]) {
+        visited[neighbor] = 1;
+        queue[tail++] = neighbor;
+      }
+    }
+  }
+
+  return queue.subarray(0, tail);
+}
+
 /**
  * Find all reachable positions from a starting position
  * 
@@ -174,44 +215,14 @@ export function findPath(start: Position, target: Position, grid: CellType[][]):
  * @returns Set of position keys that are reachable
  */
 export function findAllReachablePositions(start: Position, grid: CellType[][]): Set<string> {
+  const walkableGrid = toWalkableGrid(grid);
+  const { width, height } = walkableGrid;
   const reachable: Set<string> = new Set();
-  const visited: Set<string> = new Set();
-  const queue: Position[] = [start];
-  
-  visited.add(positionKey(start));
-  
-  // Directions: right, left, down, up
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 }
-  ];
-  
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const currentKey = positionKey(current);
-    
-    reachable.add(currentKey);
-    
-    for (const dir of directions) {
-      const neighborPos: Position = {
-        x: current.x + dir.x,
-        y: current.y + dir.y
-      };
-      
-      const neighborKey = positionKey(neighborPos);
-      
-      if (
-        isInBounds(neighborPos, grid) && 
-        isWalkable(neighborPos, grid) && 
-        !visited.has(neighborKey)
-      ) {
-        visited.add(neighborKey);
-        queue.push(neighborPos);
-      }
-    }
-  }
+
+  const visited = new Uint8Array(width * height);
+  floodFill(start.y * width + start.x, walkableGrid, visited).forEach(index => {
+    reachable.add(positionKey(indexToPosition(index, width)));
+  });
   
   return reachable;
 }
@@ -225,14 +236,6 @@ export function findAllReachablePositions(start: Position, grid: CellType[][]):
  * @returns True if the position is adjacent to a reachable position
  */
 export function isAdjacentToReachable(position: Position, reachablePositions: Set<string>, grid: CellType[][]): boolean {
-  // Directions: right, left, down, up
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 }
-  ];
-  
   for (const dir of directions) {
     const adjacentPos: Position = {
       x: position.x + dir.x,
@@ -251,309 +254,172 @@ export function isAdjacentToReachable(position: Position, reachablePositions: Se
 }
 
 /**
- * Identify critical path cells - empty cells that are necessary for reaching sofas
- * 
+ * Identify critical path cells - empty cells that cannot be filled without
+ * blocking the door or cutting a sofa off from it
+ *
+ * A sofa stays reachable while any empty cell next to it can be reached from
+ * the door, so a cell is critical exactly when it separates the door from all
+ * of those cells. One depth-first search from the door computes low-links,
+ * which give every cell its nearest separator: the closest articulation point
+ * whose removal cuts the cell off. Separators form a tree (the cut vertices of
+ * the block-cut tree), and the cells that cut off a sofa are the lowest common
+ * separator of its neighbouring cells and everything above it. The whole pass
+ * takes O(n log n) in the number of cells.
+ *
  * @param grid The game grid
  * @param doorPosition The position of the door
+ * @param sofas The cells of each placed sofa; sofas are judged one by one, even when they touch
  * @returns Set of position keys representing critical path cells
  */
-export function identifyCriticalPaths(grid: CellType[][], doorPosition: Position): Set<string> {
-  // Directions for adjacent cells
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 }
-  ];
-  
-  // Find an empty cell adjacent to the door to start pathfinding from
-  let doorAdjacentEmpty: Position | null = null;
-  
-  for (const dir of directions) {
-    const pos = {
-      x: doorPosition.x + dir.x,
-      y: doorPosition.y + dir.y
-    };
-    
-    if (isInBounds(pos, grid) && grid[pos.y][pos.x] === 'empty') {
-      doorAdjacentEmpty = pos;
-      break;
-    }
-  }
-  
-  if (!doorAdjacentEmpty) {
+export function identifyCriticalPaths(grid: CellType[][], doorPosition: Position, sofas: Position[][]): Set<string> {
+  const walkableGrid = toWalkableGrid(grid);
+  const { width, height, walkable } = walkableGrid;
+  const size = width * height;
+  const isOpen = (index: number) => index !== -1 && walkable[index] === 1;
+
+  // Empty cells next to the door, in the order the engine picks its starting cell
+  const doorNeighbors = directions
+    .map(dir => neighborIndex(doorPosition.y * width + doorPosition.x, dir, width, height))
+    .filter(isOpen);
+
+  if (doorNeighbors.length === 0) {
     return new Set(); // Door is blocked, no critical paths
   }
-  
-  // Find all sofa positions and their adjacent empty cells
-  const sofaPositions: Position[] = [];
-  const sofaAdjacentEmptyCells: Position[] = [];
-  
-  for (let y = 0; y < grid.length; y++) {
-    for (let x = 0; x < grid[y].length; x++) {
-      if (grid[y][x].startsWith('sofa')) {
-        sofaPositions.push({ x, y });
-        
-        // Find adjacent empty cells for this sofa
-        for (const dir of directions) {
-          const adjacentPos = {
-            x: x + dir.x,
-            y: y + dir.y
-          };
-          
-          if (isInBounds(adjacentPos, grid) && grid[adjacentPos.y][adjacentPos.x] === 'empty') {
-            sofaAdjacentEmptyCells.push(adjacentPos);
-          }
-        }
+  const root = doorNeighbors[0];
+
+  // Depth-first search from the door: preorder number, tree parent and low-link of every reachable cell
+  const order = new Int32Array(size).fill(-1);
+  const parent = new Int32Array(size).fill(-1);
+  const low = new Int32Array(size);
+  const preorder = new Int32Array(size);
+  const stack = new Int32Array(size);
+  const nextDirection = new Uint8Array(size);
+  let visited = 0;
+  let top = 0;
+
+  order[root] = low[root] = visited;
+  preorder[visited++] = root;
+  stack[top++] = root;
+
+  while (top > 0) {
+    const current = stack[top - 1];
+
+    if (nextDirection[current] < directions.length) {
+      const neighbor = neighborIndex(current, directions[nextDirection[current]++], width, height);
+      if (!isOpen(neighbor)) continue;
+
+      if (order[neighbor] === -1) {
+        parent[neighbor] = current;
+        order[neighbor] = low[neighbor] = visited;
+        preorder[visited++] = neighbor;
+        stack[top++] = neighbor;
+      } else if (neighbor !== parent[current]) {
+        low[current] = Math.min(low[current], order[neighbor]);
+      }
+    } else {
+      top--;
+      if (parent[current] !== -1) {
+        low[parent[current]] = Math.min(low[parent[current]], low[current]);
       }
     }
   }
-  
-  if (sofaPositions.length === 0) {
-    return new Set(); // No sofas, no critical paths
+
+  // Nearest separator of each cell: its parent if the parent is an articulation point
+  // that cuts the cell's subtree off, otherwise the parent's own separator
+  const separator = new Int32Array(size).fill(-1);
+  const separatorDepth = new Int32Array(size);
+  for (let i = 1; i < visited; i++) {
+    const cell = preorder[i];
+    const up = parent[cell];
+    separator[cell] = low[cell] >= order[up] ? up : separator[up];
+    separatorDepth[cell] = separatorDepth[separator[cell]] + 1;
   }
-  
-  // Group sofas by connected components
-  const sofaGroups: Position[][] = [];
-  const visitedSofas: Set<string> = new Set();
-  
-  for (const sofaPos of sofaPositions) {
-    const sofaKey = positionKey(sofaPos);
-    if (visitedSofas.has(sofaKey)) continue;
-    
-    const group: Position[] = [];
-    const queue: Position[] = [sofaPos];
-    visitedSofas.add(sofaKey);
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      group.push(current);
-      
-      // Check adjacent cells for connected sofas
-      for (const dir of directions) {
-        const adjacentPos = {
-          x: current.x + dir.x,
-          y: current.y + dir.y
-        };
-        
-        const adjacentKey = positionKey(adjacentPos);
-        
-        if (
-          isInBounds(adjacentPos, grid) && 
-          grid[adjacentPos.y][adjacentPos.x].startsWith('sofa') && 
-          !visitedSofas.has(adjacentKey)
-        ) {
-          visitedSofas.add(adjacentKey);
-          queue.push(adjacentPos);
-        }
-      }
+
+  // Binary lifting over the separator tree for lowest common separators
+  const levels = Math.max(1, Math.ceil(Math.log2(visited + 1)));
+  const jumps: Int32Array[] = [separator];
+  for (let level = 1; level < levels; level++) {
+    const previous = jumps[level - 1];
+    const jump = new Int32Array(size).fill(-1);
+    for (let i = 0; i < visited; i++) {
+      const cell = preorder[i];
+      jump[cell] = previous[cell] === -1 ? -1 : previous[previous[cell]];
     }
-    
-    sofaGroups.push(group);
+    jumps.push(jump);
   }
-  
-  // Find all empty cells
-  const emptyCells: Position[] = [];
-  for (let y = 0; y < grid.length; y++) {
-    for (let x = 0; x < grid[y].length; x++) {
-      if (grid[y][x] === 'empty') {
-        emptyCells.push({ x, y });
-      }
+
+  const commonSeparator = (a: number, b: number): number => {
+    if (separatorDepth[a] < separatorDepth[b]) [a, b] = [b, a];
+    for (let level = levels - 1; level >= 0; level--) {
+      const jumped = jumps[level][a];
+      if (jumped !== -1 && separatorDepth[jumped] >= separatorDepth[b]) a = jumped;
     }
-  }
-  
-  // Initialize critical paths set
-  const criticalPaths: Set<string> = new Set();
-  
-  // The cell adjacent to the door is always critical
-  criticalPaths.add(positionKey(doorAdjacentEmpty));
-  
-  // For each sofa group, find all critical paths to it
-  for (const group of sofaGroups) {
-    // Find all empty cells adjacent to this sofa group
-    const adjacentEmptyCells: Position[] = [];
-    const visitedCells: Set<string> = new Set();
-    
-    for (const sofaPos of group) {
-      for (const dir of directions) {
-        const adjacentPos = {
-          x: sofaPos.x + dir.x,
-          y: sofaPos.y + dir.y
-        };
-        
-        const adjacentKey = positionKey(adjacentPos);
-        
-        if (
-          isInBounds(adjacentPos, grid) && 
-          grid[adjacentPos.y][adjacentPos.x] === 'empty' && 
-          !visitedCells.has(adjacentKey)
-        ) {
-          visitedCells.add(adjacentKey);
-          adjacentEmptyCells.push(adjacentPos);
-        }
+    if (a === b) return a;
+    for (let level = levels - 1; level >= 0; level--) {
+      if (jumps[level][a] !== jumps[level][b]) {
+        a = jumps[level][a];
+        b = jumps[level][b];
       }
     }
-    
-    // For each adjacent empty cell, find the shortest path to it from the door
-    for (const targetCell of adjacentEmptyCells) {
-      const path = findPath(doorAdjacentEmpty, targetCell, grid);
-      
-      if (path) {
-        // Mark all cells in this path as critical
-        for (const pathCell of path) {
-          criticalPaths.add(positionKey(pathCell));
-        }
+    return separator[a];
+  };
+
+  // Reachable empty cells next to a sofa
+  const sofaNeighbors = (cells: Position[]): number[] => {
+    const neighbors: number[] = [];
+    for (const cell of cells) {
+      for (const dir of directions) {
+        const neighbor = neighborIndex(cell.y * width + cell.x, dir, width, height);
+        if (isOpen(neighbor) && order[neighbor] !== -1) neighbors.push(neighbor);
       }
     }
-  }
-  
-  // Second pass: For each empty cell that's not already marked as critical,
-  // check if removing it would make any sofa group unreachable
-  for (const emptyCell of emptyCells) {
-    const cellKey = positionKey(emptyCell);
-    
-    // Skip if already marked as critical
-    if (criticalPaths.has(cellKey)) {
-      continue;
-    }
-    
-    // Create a temporary grid with this cell blocked
-    const tempGrid = grid.map(row => [...row]);
-    tempGrid[emptyCell.y][emptyCell.x] = 'wall'; // Temporarily block this cell
-    
-    // Check if all sofa groups are still reachable
-    let isCritical = false;
-    
-    for (const group of sofaGroups) {
-      let isGroupReachable = false;
-      
-      // Find all empty cells adjacent to this sofa group
-      for (const sofaPos of group) {
-        for (const dir of directions) {
-          const adjacentPos = {
-            x: sofaPos.x + dir.x,
-            y: sofaPos.y + dir.y
-          };
-          
-          if (
-            isInBounds(adjacentPos, tempGrid) && 
-            tempGrid[adjacentPos.y][adjacentPos.x] === 'empty'
-          ) {
-            // Check if there's a path from the door to this adjacent cell
-            const path = findPath(doorAdjacentEmpty, adjacentPos, tempGrid);
-            if (path !== null) {
-              isGroupReachable = true;
-              break;
-            }
-          }
-        }
-        
-        if (isGroupReachable) break;
-      }
-      
-      if (!isGroupReachable) {
-        isCritical = true;
-        break;
-      }
+    return neighbors;
+  };
+
+  const critical = new Uint8Array(size);
+
+  // Mark the common separators of every sofa's neighbouring cells. Marked cells always
+  // have their separators marked too, so each walk stops at the first marked cell.
+  // The starting cell is left to the check below, because the engine starts from
+  // the next cell by the door when it is filled.
+  for (const cells of sofas) {
+    const neighbors = sofaNeighbors(cells);
+    if (neighbors.length === 0) continue; // Already out of reach, so it can't be cut off
+
+    let common = neighbors[0];
+    for (let i = 1; i < neighbors.length; i++) {
+      common = commonSeparator(common, neighbors[i]);
     }
-    
-    if (isCritical) {
-      criticalPaths.add(cellKey);
+
+    for (let cell = common; cell !== root && !critical[cell]; cell = separator[cell]) {
+      critical[cell] = 1;
     }
   }
-  
-  // Third pass: Identify bottleneck paths
-  // For each sofa adjacent empty cell, find all possible paths to it
-  // and mark cells that appear in all possible paths as critical
-  for (const targetCell of sofaAdjacentEmptyCells) {
-    const targetKey = positionKey(targetCell);
-    
-    // Skip if this cell is not reachable
-    const pathToTarget = findPath(doorAdjacentEmpty, targetCell, grid);
-    if (!pathToTarget) continue;
-    
-    // Find all possible paths to this target cell
-    const allPaths: Position[][] = [];
-    const maxPathLength = pathToTarget.length * 2; // Limit path length to avoid excessive computation
-    
-    // Helper function to find all paths using DFS
-    const findAllPaths = (
-      current: Position, 
-      target: Position, 
-      visited: Set<string>, 
-      currentPath: Position[]
-    ) => {
-      const currentKey = positionKey(current);
-      
-      // Base case: reached target
-      if (current.x === target.x && current.y === target.y) {
-        allPaths.push([...currentPath, current]);
-        return;
-      }
-      
-      // Base case: path too long
-      if (currentPath.length > maxPathLength) {
-        return;
-      }
-      
-      // Mark current cell as visited
-      visited.add(currentKey);
-      currentPath.push(current);
-      
-      // Try all directions
-      for (const dir of directions) {
-        const nextPos = {
-          x: current.x + dir.x,
-          y: current.y + dir.y
-        };
-        
-        const nextKey = positionKey(nextPos);
-        
-        if (
-          isInBounds(nextPos, grid) && 
-          (grid[nextPos.y][nextPos.x] === 'empty' || (nextPos.x === target.x && nextPos.y === target.y)) && 
-          !visited.has(nextKey)
-        ) {
-          findAllPaths(nextPos, target, new Set(visited), [...currentPath]);
-        }
-      }
-    };
-    
-    // Find up to 5 different paths to limit computation
-    findAllPaths(doorAdjacentEmpty, targetCell, new Set(), []);
-    
-    // Limit to 5 paths to avoid excessive computation
-    const limitedPaths = allPaths.slice(0, 5);
-    
-    if (limitedPaths.length > 1) {
-      // Find cells that appear in all paths (bottleneck cells)
-      const cellCounts: Map<string, number> = new Map();
-      
-      for (const path of limitedPaths) {
-        const pathCellKeys = new Set<string>();
-        
-        for (const cell of path) {
-          pathCellKeys.add(positionKey(cell));
-        }
-        
-        pathCellKeys.forEach(key => {
-          cellCounts.set(key, (cellCounts.get(key) || 0) + 1);
-        });
-      }
-      
-      // Cells that appear in all paths are bottlenecks
-      cellCounts.forEach((count, key) => {
-        if (count === limitedPaths.length) {
-          criticalPaths.add(key);
-        }
-      });
-    } else if (limitedPaths.length === 1) {
-      // If there's only one path, all cells in it are critical
-      for (const cell of limitedPaths[0]) {
-        criticalPaths.add(positionKey(cell));
-      }
+
+  // Filling the starting cell blocks the door unless it has another empty neighbour,
+  // which then has to reach every sofa that is reachable now
+  let isRootCritical = doorNeighbors.length === 1;
+  if (!isRootCritical) {
+    const fallback = new Uint8Array(size);
+    fallback[root] = 1; // Filled, so the search goes around it
+    floodFill(doorNeighbors[1], walkableGrid, fallback);
+
+    isRootCritical = sofas.some(cells => {
+      const neighbors = sofaNeighbors(cells);
+      return neighbors.length > 0 && !neighbors.some(index => index !== root && fallback[index]);
+    });
+  }
+  if (isRootCritical) {
+    critical[root] = 1;
+  }
+
+  const criticalPaths: Set<string> = new Set();
+  for (let i = 0; i < visited; i++) {
+    const cell = preorder[i];
+    if (critical[cell]) {
+      criticalPaths.add(positionKey(indexToPosition(cell, width)));
     }
   }
-  
+
   return criticalPaths;
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { CellType, Position } from "@/types/game";
+import { createRandom } from "@/utils/random";
+import { findAllReachablePositions, findPath, identifyCriticalPaths } from "@/utils/pathfinding";
+
+/**
+ * Pathfinding benchmark
+ *
+ * Times the pathfinding core on square rooms up to 100x100, so changes to it
+ * can be checked against rooms far larger than the game generates. Rooms are
+ * seeded, so runs are comparable between machines and commits.
+ */
+
+export const BENCHMARK_SIZES = [10, 25, 50, 75, 100];
+
+// Share of interior cells turned into walls and single-cell sofas
+const WALL_DENSITY = 0.1;
+const SOFA_DENSITY = 0.2;
+const AISLE_SPACING = 5;
+
+export interface BenchmarkRoom {
+  grid: CellType[][];
+  doorPosition: Position;
+  sofas: Position[][];
+}
+
+export interface BenchmarkResult {
+  size: number; // Room width and height
+  cells: number;
+  reachableCells: number; // Cells the searches cover from the door
+  repeats: number;
+  // Average milliseconds per call
+  findPathMs: number; // Door to the far corner
+  reachableMs: number;
+  criticalPathsMs: number;
+}
+
+/**
+ * Build a walled square room with a door, aisles and scattered walls and sofas
+ *
+ * @param size Width and height, including the outer walls
+ * @param seed Seed for the scattered cells
+ */
+export function createBenchmarkRoom(size: number, seed = 1): BenchmarkRoom {
+  const random = createRandom(seed);
+  const doorPosition = { x: 0, y: 1 };
+  const sofas: Position[][] = [];
+
+  const grid: CellType[][] = Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x): CellType => {
+      if (x === 0 || y === 0 || x === size - 1 || y === size - 1) return 'wall';
+      // Aisles along both sides and every few rows keep most of the room reachable from the door
+      if (x === 1 || x === size - 2 || y % AISLE_SPACING === 1) return 'empty';
+
+      const roll = random();
+      if (roll < WALL_DENSITY) return 'wall';
+      if (roll < WALL_DENSITY + SOFA_DENSITY) {
+        sofas.push([{ x, y }]);
+        return 'sofa';
+      }
+      return 'empty';
+    })
+  );
+  grid[doorPosition.y][doorPosition.x] = 'door';
+
+  return { grid, doorPosition, sofas };
+}
+
+// Average time of a call in milliseconds
+function time(repeats: number, run: () => void): number {
+  const start = performance.now();
+  for (let i = 0; i < repeats; i++) run();
+  return (performance.now() - start) / repeats;
+}
+
+/**
+ * Time findPath, findAllReachablePositions and identifyCriticalPaths on rooms of each size
+ *
+ * @param sizes Room sizes to run
+ * @param repeats Calls per function and size; the average is reported
+ */
+export function runPathfindingBenchmark(sizes: number[] = BENCHMARK_SIZES, repeats = 20): BenchmarkResult[] {
+  return sizes.map(size => {
+    const { grid, doorPosition, sofas } = createBenchmarkRoom(size);
+    const start = { x: 1, y: 1 };
+    const target = { x: size - 2, y: size - 2 };
+
+    return {
+      size,
+      cells: size * size,
+      reachableCells: findAllReachablePositions(start, grid).size,
+      repeats,
+      findPathMs: time(repeats, () => findPath(start, target, grid)),
+      reachableMs: time(repeats, () => findAllReachablePositions(start, grid)),
+      criticalPathsMs: time(repeats, () => identifyCriticalPaths(grid, doorPosition, sofas))
+    };
+  });
+}
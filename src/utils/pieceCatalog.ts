@@ -0,0 +1,254 @@
+import { z } from "zod";
+import pieceData from "@/data/pieces.json";
+import { PieceDefinition, Position, Rotation, SofaInventory, SofaType } from "@/types/game";
+
+/**
+ * Piece catalog
+ *
+ * Every sofa piece is defined once in src/data/pieces.json as a polyomino
+ * (its cells at rotation 0, anchored at (0, 0)), a display name and its
+ * artwork colours. Rotations, sizes, handedness and footprints are derived
+ * here, and the engine, solver, inventory and renderer all read pieces from
+ * this catalog, so adding a piece only needs a new entry in the data file.
+ *
+ * Rotations that give the same shape (like 0° and 180° of a straight sofa)
+ * also give the same footprint: the one that has the anchor as its top-left
+ * cell, which is how the original rectangular sofa extended right at 0° and
+ * down at 90°, whatever the direction of the turn.
+ *
+ * A flipped piece is mirrored left to right before it is rotated. Pieces
+ * whose mirror image is just another rotation are not chiral and ignore the
+ * flag, unless the data marks them `handed`: the L-shaped and corner sofas
+ * cover symmetric shapes but are sold in left- and right-handed versions,
+ * which differ in which arm ends in the chaise. Chiral pieces keep a
+ * separate inventory count per handedness.
+ */
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// Suffix of the inventory key counting the mirrored handedness of a chiral piece
+const FLIPPED_SUFFIX = ':flipped';
+
+const positionSchema = z.object({
+  x: z.number().int(),
+  y: z.number().int()
+});
+
+const pieceSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Piece ids use lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  seats: z.number().int().min(0).optional(), // Defaults to one seat per cell
+  handed: z.boolean().optional(), // Comes in two handednesses even if the mirrored shape is a rotation
+  cells: z.array(positionSchema).min(1).refine(
+    cells => cells.some(cell => cell.x === 0 && cell.y === 0),
+    'Pieces must cover their anchor cell (0, 0)'
+  ),
+  art: z.object({
+    fill: z.string(),
+    stroke: z.string(),
+    cushion: z.string()
+  })
+});
+
+// Mirror an offset if flipped, then rotate it clockwise around the anchor, 90 degrees per step
+function transformOffset(offset: Position, rotation: Rotation, flipped: boolean): Position {
+  let x = flipped ? -offset.x : offset.x;
+  let y = offset.y;
+  for (let step = 0; step < rotation / 90; step++) {
+    [x, y] = [y, -x];
+  }
+  return { x: x + 0, y: y + 0 }; // Normalize -0
+}
+
+// Key describing a shape regardless of cell order and position
+function shapeKey(cells: Position[]): string {
+  const minX = Math.min(...cells.map(cell => cell.x));
+  const minY = Math.min(...cells.map(cell => cell.y));
+  return cells.map(cell => `${cell.x - minX},${cell.y - minY}`).sort().join(';');
+}
+
+// Whether no cell of a footprint comes before the anchor in reading order
+function isAnchoredTopLeft(offsets: Position[]): boolean {
+  return offsets.every(offset => offset.y > 0 || (offset.y === 0 && offset.x >= 0));
+}
+
+const orientationKey = (rotation: Rotation, flipped: boolean) => `${rotation}:${flipped}`;
+
+// Offsets of every rotation and handedness of a piece; rotations with the same shape share one footprint
+function buildOrientations(cells: Position[]): Map<string, Position[]> {
+  const orientations = new Map<string, Position[]>();
+
+  for (const flipped of [false, true]) {
+    const turned = ROTATIONS.map(rotation => ({
+      rotation,
+      offsets: cells.map(cell => transformOffset(cell, rotation, flipped))
+    }));
+    for (const { rotation, offsets } of turned) {
+      const sameShape = turned.filter(other => shapeKey(other.offsets) === shapeKey(offsets));
+      const shared = sameShape.find(other => isAnchoredTopLeft(other.offsets)) ?? sameShape[0];
+      orientations.set(orientationKey(rotation, flipped), shared.offsets);
+    }
+  }
+
+  return orientations;
+}
+
+function buildCatalog(data: unknown): { pieces: PieceDefinition[]; orientations: Map<SofaType, Map<string, Position[]>> } {
+  const parsed = z.array(pieceSchema).min(1).parse(data);
+  const orientations = new Map<SofaType, Map<string, Position[]>>();
+
+  const pieces = parsed.map(piece => {
+    const pieceOrientations = buildOrientations(piece.cells);
+    orientations.set(piece.id, pieceOrientations);
+    const shape = (rotation: Rotation, flipped: boolean) =>
+      shapeKey(pieceOrientations.get(orientationKey(rotation, flipped))!);
+
+    const seen = new Set<string>();
+    const rotations = ROTATIONS.filter(rotation => {
+      const key = shape(rotation, false);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    const chiral = piece.handed || !ROTATIONS.some(rotation => seen.has(shape(rotation, true)));
+
+    return { ...piece, size: piece.cells.length, seats: piece.seats ?? piece.cells.length, rotations, chiral };
+  });
+
+  return { pieces, orientations };
+}
+
+const catalog = buildCatalog(pieceData);
+
+export const PIECE_CATALOG: PieceDefinition[] = catalog.pieces;
+
+const piecesById = new Map(PIECE_CATALOG.map(piece => [piece.id, piece]));
+
+/**
+ * Look up a piece by id
+ */
+export function getPiece(id: SofaType): PieceDefinition | undefined {
+  return piecesById.get(id);
+}
+
+export function isKnownPiece(id: string): boolean {
+  return piecesById.has(id);
+}
+
+/**
+ * Whether a piece has a distinct mirrored handedness
+ */
+export function isChiral(id: SofaType): boolean {
+  return piecesById.get(id)?.chiral ?? false;
+}
+
+/**
+ * Inventory key counting one handedness of a piece
+ */
+export function getInventoryKey(id: SofaType, flipped: boolean): string {
+  return flipped && isChiral(id) ? `${id}${FLIPPED_SUFFIX}` : id;
+}
+
+/**
+ * Split an inventory key into its piece id and handedness
+ */
+export function parseInventoryKey(key: string): { id: SofaType; flipped: boolean } {
+  return key.endsWith(FLIPPED_SUFFIX)
+    ? { id: key.slice(0, -FLIPPED_SUFFIX.length), flipped: true }
+    : { id: key, flipped: false };
+}
+
+/**
+ * Whether a key names a catalog piece, or the flipped handedness of a chiral one
+ */
+export function isKnownInventoryKey(key: string): boolean {
+  const { id, flipped } = parseInventoryKey(key);
+  return flipped ? isChiral(id) : isKnownPiece(id);
+}
+
+/**
+ * Get the board cells a piece covers when anchored at a position
+ *
+ * @throws Error for ids that are not in the catalog
+ */
+export function getPieceCells(id: SofaType, pos: Position, rotation: Rotation, flipped = false): Position[] {
+  const piece = piecesById.get(id);
+  if (!piece) {
+    throw new Error(`Unknown piece "${id}"`);
+  }
+
+  const offsets = catalog.orientations.get(id)!.get(orientationKey(rotation, flipped && piece.chiral))!;
+  return offsets.map(offset => ({ x: pos.x + offset.x, y: pos.y + offset.y }));
+}
+
+/**
+ * Get the next rotation of a piece with a different footprint
+ */
+export function getNextRotation(id: SofaType, rotation: Rotation): Rotation {
+  const rotations = piecesById.get(id)?.rotations ?? [0];
+  const index = rotations.indexOf(rotation);
+  return rotations[(index + 1) % rotations.length];
+}
+
+/**
+ * Get the previous rotation of a piece with a different footprint (anticlockwise)
+ */
+export function getPreviousRotation(id: SofaType, rotation: Rotation): Rotation {
+  const rotations = piecesById.get(id)?.rotations ?? [0];
+  const index = rotations.indexOf(rotation);
+  return rotations[(index - 1 + rotations.length) % rotations.length];
+}
+
+/**
+ * Display name of a piece, falling back to its id
+ */
+export function getPieceName(id: SofaType, flipped = false): string {
+  const name = piecesById.get(id)?.name ?? id;
+  return flipped && isChiral(id) ? `Flipped ${name}` : name;
+}
+
+/**
+ * Number of pieces of a type and handedness left in an inventory
+ */
+export function getInventoryCount(inventory: SofaInventory, id: SofaType, flipped = false): number {
+  const key = getInventoryKey(id, flipped);
+  // Own numeric entries only, so ids like "toString" don't read the object's prototype
+  const count = Object.hasOwn(inventory, key) ? inventory[key] : undefined;
+  return typeof count === 'number' ? count : 0;
+}
+
+/**
+ * Total number of cells the pieces in an inventory can cover
+ */
+export function getInventoryCells(inventory: SofaInventory): number {
+  return Object.entries(inventory).reduce(
+    (sum, [key, count]) => sum + (piecesById.get(parseInventoryKey(key).id)?.size ?? 0) * count,
+    0
+  );
+}
+
+/**
+ * Total number of people the pieces in an inventory can seat
+ */
+export function getInventorySeats(inventory: SofaInventory): number {
+  return Object.entries(inventory).reduce(
+    (sum, [key, count]) => sum + (piecesById.get(parseInventoryKey(key).id)?.seats ?? 0) * count,
+    0
+  );
+}
+
+/**
+ * Number of people a piece seats
+ */
+export function getPieceSeats(id: SofaType): number {
+  return piecesById.get(id)?.seats ?? 0;
+}
+
+/**
+ * Catalog pieces that appear in an inventory in either handedness, in catalog order
+ */
+export function getInventoryPieces(inventory: SofaInventory): PieceDefinition[] {
+  return PIECE_CATALOG.filter(piece =>
+    inventory[piece.id] !== undefined || inventory[getInventoryKey(piece.id, true)] !== undefined
+  );
+}
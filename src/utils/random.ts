@@ -0,0 +1,62 @@
+/**
+ * Seeded pseudo-random number generation
+ *
+ * Level generation draws all of its randomness from a `Random` function so
+ * that the same seed always reproduces the same level. Do not change the
+ * algorithms below: existing seeds must keep producing the same numbers.
+ */
+
+// Returns a float in [0, 1), like Math.random
+export type Random = () => number;
+
+/**
+ * Create a deterministic PRNG (mulberry32) from a 32-bit seed
+ *
+ * @param seed Any integer; only the low 32 bits are used
+ * @returns A Random function producing the same sequence for the same seed
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Turn an arbitrary string (e.g. a date or a shared code) into a 32-bit seed
+ *
+ * @param text The text to hash
+ * @returns An unsigned 32-bit seed (FNV-1a hash)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a fresh random seed for a new level
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Parse a seed typed by a player; numbers are used as-is, anything else is hashed
+ *
+ * @returns The seed, or null for empty input
+ */
+export function parseSeed(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashSeed(trimmed);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { GameState, Level } from "@/types/game";
+import { createGameState, gameReducer, getSofaCells } from "@/utils/gameEngine";
+import { levelFromAscii } from "@/utils/levelFormat";
+import { createReachabilityIndex, findCutOffSofas, isDoorBlocked, isSofaReachable } from "@/utils/reachability";
+
+const room: Level = levelFromAscii(`
+inventory: single=4 rectangular=2 l-shaped=1
+
+######
+#....#
+D....#
+#....#
+######
+`.trimStart());
+
+const rebuild = (state: GameState) => createReachabilityIndex(state.grid, state.occupancy, state.level.doorPosition);
+
+describe("reachability index", () => {
+  it("matches a fresh rebuild after every incremental change", () => {
+    const actions = [
+      { type: 'place', sofaType: 'single', position: { x: 4, y: 1 }, rotation: 0 },
+      { type: 'place', sofaType: 'rectangular', position: { x: 3, y: 2 }, rotation: 90 },
+      { type: 'place', sofaType: 'l-shaped', position: { x: 1, y: 1 }, rotation: 0 },
+      { type: 'remove', position: { x: 3, y: 2 } },
+      { type: 'move', position: { x: 4, y: 1 }, to: { x: 4, y: 3 }, rotation: 0 }
+    ] as const;
+
+    let state = createGameState(room);
+    for (const action of actions) {
+      state = gameReducer(state, action);
+      const fresh = rebuild(state);
+      expect(Array.from(state.reachability.reachable)).toEqual(Array.from(fresh.reachable));
+      expect(isDoorBlocked(state.reachability)).toBe(isDoorBlocked(fresh));
+      for (const sofa of state.sofas) {
+        expect(isSofaReachable(state.reachability, sofa.id)).toBe(isSofaReachable(fresh, sofa.id));
+      }
+    }
+  });
+
+  it("finds the sofas a placement would cut off", () => {
+    const state = gameReducer(createGameState(room), { type: 'place', sofaType: 'single', position: { x: 4, y: 1 }, rotation: 0 });
+    const sofaId = state.sofas[0].id;
+
+    // A column of three cells seals off the right-hand side of the room
+    const wall = getSofaCells('rectangular', { x: 3, y: 1 }, 90).concat({ x: 3, y: 3 });
+    expect(findCutOffSofas(state.reachability, wall)).toEqual([sofaId]);
+    expect(findCutOffSofas(state.reachability, [{ x: 2, y: 2 }])).toEqual([]);
+  });
+
+  it("reports the door as blocked once the cell in front of it is filled", () => {
+    const start = createGameState(room);
+    expect(isDoorBlocked(start.reachability)).toBe(false);
+
+    const blocked = gameReducer(start, { type: 'place', sofaType: 'single', position: { x: 1, y: 2 }, rotation: 0 });
+    expect(isDoorBlocked(blocked.reachability)).toBe(true);
+    expect(isDoorBlocked(rebuild(blocked))).toBe(true);
+  });
+});
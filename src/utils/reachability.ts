@@ -0,0 +1,354 @@
+import { CellType, Occupancy, Position, ReachabilityIndex } from "@/types/game";
+
+/**
+ * Incremental reachability index
+ *
+ * Keeps track of which empty cells can be reached from the door and, for every
+ * sofa, how many of its cell edges face a reachable empty cell. A sofa is
+ * reachable exactly when that count is above zero, so "is sofa X reachable"
+ * is a map lookup.
+ *
+ * Adding or removing a piece updates the index instead of searching the whole
+ * room again. Removing a piece can only connect cells, so the search covers
+ * just the cells that become reachable. Adding a piece can only disconnect
+ * cells; searches start from every reachable cell around the piece at once
+ * and stop as soon as all but one of them have joined up or run out, so the
+ * work is proportional to the side that gets cut off. Only when the piece
+ * covers the cell the door opens onto is the index rebuilt from scratch.
+ *
+ * Indexes are immutable values: updates copy the flat arrays (cheap next to
+ * any search) so game states kept in the history stay valid.
+ */
+
+// Directions: right, left, down, up; the first empty cell next to the door in this order is the entrance
+const directions: Position[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+// Index of the cell next to a cell index in the given direction, or -1 outside the grid
+function neighborIndex(index: number, dir: Position, width: number, height: number): number {
+  const x = index % width + dir.x;
+  const y = Math.floor(index / width) + dir.y;
+  return x >= 0 && x < width && y >= 0 && y < height ? y * width + x : -1;
+}
+
+// Add delta to the access count of every sofa next to a cell
+function adjustAccess(
+  access: Map<number, number>,
+  owner: Int32Array,
+  cell: number,
+  delta: number,
+  width: number,
+  height: number
+): void {
+  for (const dir of directions) {
+    const neighbor = neighborIndex(cell, dir, width, height);
+    if (neighbor !== -1 && owner[neighbor] !== 0) {
+      access.set(owner[neighbor], (access.get(owner[neighbor]) ?? 0) + delta);
+    }
+  }
+}
+
+// Number of edges between a piece's cells and reachable empty cells
+function countAccess(reachable: Uint8Array, cells: number[], width: number, height: number): number {
+  let count = 0;
+  for (const cell of cells) {
+    for (const dir of directions) {
+      const neighbor = neighborIndex(cell, dir, width, height);
+      if (neighbor !== -1 && reachable[neighbor]) count++;
+    }
+  }
+  return count;
+}
+
+// First empty cell next to the door, or -1 when the door is blocked
+function findEntrance(door: number, open: Uint8Array, width: number, height: number): number {
+  for (const dir of directions) {
+    const neighbor = neighborIndex(door, dir, width, height);
+    if (neighbor !== -1 && open[neighbor]) return neighbor;
+  }
+  return -1;
+}
+
+// Build an index from scratch with a flood fill from the entrance
+function buildIndex(width: number, height: number, door: number, open: Uint8Array, owner: Int32Array): ReachabilityIndex {
+  const entrance = findEntrance(door, open, width, height);
+  const reachable = new Uint8Array(width * height);
+  const access = new Map<number, number>();
+
+  if (entrance !== -1) {
+    const queue = [entrance];
+    reachable[entrance] = 1;
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      adjustAccess(access, owner, current, 1, width, height);
+      for (const dir of directions) {
+        const neighbor = neighborIndex(current, dir, width, height);
+        if (neighbor !== -1 && open[neighbor] && !reachable[neighbor]) {
+          reachable[neighbor] = 1;
+          queue.push(neighbor);
+        }
+      }
+    }
+  }
+
+  return { width, height, door, entrance, open, reachable, owner, access };
+}
+
+/**
+ * Build the reachability index for a board
+ *
+ * @param grid The game grid; only 'empty' cells can be walked through
+ * @param occupancy Sofa id covering each cell
+ * @param doorPosition The position of the door
+ */
+export function createReachabilityIndex(grid: CellType[][], occupancy: Occupancy, doorPosition: Position): ReachabilityIndex {
+  const height = grid.length;
+  const width = grid[0].length;
+  const open = new Uint8Array(width * height);
+  const owner = new Int32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grid[y][x] === 'empty') open[y * width + x] = 1;
+      owner[y * width + x] = occupancy[y][x] ?? 0;
+    }
+  }
+
+  return buildIndex(width, height, doorPosition.y * width + doorPosition.x, open, owner);
+}
+
+// Cell indices of a piece, skipping cells outside the room
+function toIndices(index: ReachabilityIndex, cells: Position[]): number[] {
+  return cells
+    .filter(cell => cell.x >= 0 && cell.x < index.width && cell.y >= 0 && cell.y < index.height)
+    .map(cell => cell.y * index.width + cell.x);
+}
+
+/**
+ * Reachable cells that filling the blocked cells would cut off from the entrance
+ *
+ * Runs one breadth-first search from each reachable cell next to the blocked
+ * ones, taking turns one cell at a time. Searches that run into each other
+ * join up. Once every group has run out, or the only group still growing
+ * is the one that has to hold the entrance, the remaining groups are
+ * settled and every one without the entrance is cut off.
+ * The entrance itself must not be blocked.
+ */
+function findCutOffCells(index: ReachabilityIndex, blocked: number[]): number[] {
+  const { width, height, entrance, reachable } = index;
+  const isBlocked = new Set(blocked);
+
+  const seeds: number[] = [];
+  for (const cell of blocked) {
+    if (!reachable[cell]) continue;
+    for (const dir of directions) {
+      const neighbor = neighborIndex(cell, dir, width, height);
+      if (neighbor !== -1 && reachable[neighbor] && !isBlocked.has(neighbor) && !seeds.includes(neighbor)) {
+        seeds.push(neighbor);
+      }
+    }
+  }
+  // With a single way around the blocked cells nothing else can be cut off
+  if (seeds.length <= 1) return [];
+
+  const searchOf = new Map<number, number>(); // Cell → search that reached it first
+  const queues = seeds.map(seed => [seed]);
+  const heads = seeds.map(() => 0);
+  const groups = seeds.map((_, search) => search); // Union-find over searches that met
+  let rootedSearch = -1; // A search that reached the entrance
+
+  const findGroup = (search: number): number => {
+    while (groups[search] !== search) {
+      groups[search] = groups[groups[search]];
+      search = groups[search];
+    }
+    return search;
+  };
+
+  seeds.forEach((seed, search) => {
+    searchOf.set(seed, search);
+    if (seed === entrance) rootedSearch = search;
+  });
+
+  while (true) {
+    const allGroups = new Set(seeds.map((_, search) => findGroup(search)));
+    if (allGroups.size === 1) return []; // Everything joined up again
+
+    const growing = new Set<number>();
+    seeds.forEach((_, search) => {
+      if (heads[search] < queues[search].length) growing.add(findGroup(search));
+    });
+    const rootedGroup = rootedSearch === -1 ? -1 : findGroup(rootedSearch);
+
+    // Settled: either every group ran out, or only the group holding the entrance is still growing
+    const isSettled = growing.size === 0 || (growing.size === 1 && (rootedGroup === -1 || growing.has(rootedGroup)));
+    if (isSettled) {
+      const keptGroup = growing.size === 0 ? rootedGroup : (growing.values().next().value as number);
+      const cutOff: number[] = [];
+      searchOf.forEach((search, cell) => {
+        if (findGroup(search) !== keptGroup) cutOff.push(cell);
+      });
+      return cutOff;
+    }
+
+    // One step of every search that still has cells to expand
+    for (let search = 0; search < seeds.length; search++) {
+      if (heads[search] >= queues[search].length) continue;
+      const current = queues[search][heads[search]++];
+
+      for (const dir of directions) {
+        const neighbor = neighborIndex(current, dir, width, height);
+        if (neighbor === -1 || !reachable[neighbor] || isBlocked.has(neighbor)) continue;
+
+        const other = searchOf.get(neighbor);
+        if (other === undefined) {
+          searchOf.set(neighbor, search);
+          queues[search].push(neighbor);
+          if (neighbor === entrance) rootedSearch = search;
+        } else {
+          groups[findGroup(other)] = findGroup(search);
+        }
+      }
+    }
+  }
+}
+
+// How many cell edges each sofa loses when the given reachable cells are filled or cut off
+function countLostAccess(index: ReachabilityIndex, lostCells: number[]): Map<number, number> {
+  const lost = new Map<number, number>();
+  lostCells.forEach(cell => adjustAccess(lost, index.owner, cell, 1, index.width, index.height));
+  return lost;
+}
+
+/**
+ * Update the index for a piece added on empty cells
+ *
+ * @param index The index before the piece is added
+ * @param id The id of the new sofa
+ * @param cells The cells the piece covers
+ */
+export function addPiece(index: ReachabilityIndex, id: number, cells: Position[]): ReachabilityIndex {
+  const { width, height } = index;
+  const pieceCells = toIndices(index, cells);
+  const open = index.open.slice();
+  const owner = index.owner.slice();
+  pieceCells.forEach(cell => {
+    open[cell] = 0;
+    owner[cell] = id;
+  });
+
+  // The search would start somewhere else, so start again
+  if (pieceCells.includes(index.entrance)) {
+    return buildIndex(width, height, index.door, open, owner);
+  }
+
+  const filled = pieceCells.filter(cell => index.reachable[cell]);
+  const lostCells = [...filled, ...findCutOffCells(index, filled)];
+  const reachable = index.reachable.slice();
+  const access = new Map(index.access);
+
+  lostCells.forEach(cell => {
+    reachable[cell] = 0;
+    adjustAccess(access, index.owner, cell, -1, width, height);
+  });
+  access.set(id, countAccess(reachable, pieceCells, width, height));
+
+  return { ...index, open, reachable, owner, access };
+}
+
+/**
+ * Update the index for a piece taken off the board
+ *
+ * @param index The index before the piece is removed
+ * @param id The id of the removed sofa
+ * @param cells The cells the piece covered
+ */
+export function removePiece(index: ReachabilityIndex, id: number, cells: Position[]): ReachabilityIndex {
+  const { width, height } = index;
+  const pieceCells = toIndices(index, cells);
+  const open = index.open.slice();
+  const owner = index.owner.slice();
+  pieceCells.forEach(cell => {
+    open[cell] = 1;
+    owner[cell] = 0;
+  });
+
+  // A freed cell by the door may become the entrance, so start again
+  if (findEntrance(index.door, open, width, height) !== index.entrance) {
+    return buildIndex(width, height, index.door, open, owner);
+  }
+
+  const reachable = index.reachable.slice();
+  const access = new Map(index.access);
+  access.delete(id);
+
+  // Flood into the freed cells, and whatever they open up, from their reachable neighbours
+  const queue = pieceCells.filter(cell => directions.some(dir => {
+    const neighbor = neighborIndex(cell, dir, width, height);
+    return neighbor !== -1 && reachable[neighbor] === 1;
+  }));
+  queue.forEach(cell => { reachable[cell] = 1; });
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    adjustAccess(access, owner, current, 1, width, height);
+    for (const dir of directions) {
+      const neighbor = neighborIndex(current, dir, width, height);
+      if (neighbor !== -1 && open[neighbor] && !reachable[neighbor]) {
+        reachable[neighbor] = 1;
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return { ...index, open, reachable, owner, access };
+}
+
+/**
+ * Whether no empty cell next to the door is left
+ */
+export function isDoorBlocked(index: ReachabilityIndex): boolean {
+  return index.entrance === -1;
+}
+
+/**
+ * Whether a sofa has at least one reachable empty cell next to it
+ */
+export function isSofaReachable(index: ReachabilityIndex, id: number): boolean {
+  return (index.access.get(id) ?? 0) > 0;
+}
+
+/**
+ * Sofas that are reachable now but would not be after filling the given empty cells
+ *
+ * Answers "which sofas does this placement cut off" without building the new
+ * board. Sofas that are already out of reach are not included, and neither
+ * is the piece being placed.
+ *
+ * @param index The current index
+ * @param cells The cells the new piece would cover
+ * @returns Ids of the sofas that would be cut off
+ */
+export function findCutOffSofas(index: ReachabilityIndex, cells: Position[]): number[] {
+  const pieceCells = toIndices(index, cells);
+
+  if (pieceCells.includes(index.entrance)) {
+    const open = index.open.slice();
+    pieceCells.forEach(cell => { open[cell] = 0; });
+    const next = buildIndex(index.width, index.height, index.door, open, index.owner);
+    return Array.from(index.access.keys()).filter(id => isSofaReachable(index, id) && !isSofaReachable(next, id));
+  }
+
+  const filled = pieceCells.filter(cell => index.reachable[cell]);
+  const lost = countLostAccess(index, [...filled, ...findCutOffCells(index, filled)]);
+  const cutOff: number[] = [];
+  lost.forEach((count, id) => {
+    const access = index.access.get(id) ?? 0;
+    if (access > 0 && access === count) cutOff.push(id);
+  });
+  return cutOff;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Level } from "@/types/game";
+import { createGameState } from "@/utils/gameEngine";
+import { applyAction, createHistory, undo } from "@/utils/gameHistory";
+import { levelFromAscii, levelToJson } from "@/utils/levelFormat";
+import {
+  Replay,
+  ReplayFormatError,
+  decodeReplay,
+  encodeReplay,
+  getReplayFrames,
+  recordHistoryChange,
+  startReplay
+} from "@/utils/replay";
+
+const room: Level = levelFromAscii(`
+name: Replay Room
+inventory: single=2 rectangular=1 l-shaped:flipped=1
+
+######
+#....#
+D....#
+#....#
+######
+`.trimStart());
+
+const header = `friheten-replay 1\nlevel ${JSON.stringify(JSON.parse(levelToJson(room)))}\n`;
+
+// Record a short game: two placements, an undo and a placement that drops the redo entry
+function recordGame(): Replay {
+  let history = createHistory(createGameState(room));
+  let replay = startReplay(history);
+  const step = (next: typeof history, time: number) => {
+    replay = recordHistoryChange(replay, history, next, time);
+    history = next;
+  };
+
+  step(applyAction(history, { type: 'place', sofaType: 'rectangular', position: { x: 3, y: 1 }, rotation: 90 }), 400);
+  step(applyAction(history, { type: 'place', sofaType: 'l-shaped', position: { x: 2, y: 1 }, rotation: 0, flipped: true }), 1250);
+  step(undo(history), 1900);
+  step(applyAction(history, { type: 'place', sofaType: 'single', position: { x: 4, y: 3 }, rotation: 0 }), 2600);
+  return replay;
+}
+
+describe("replay codec", () => {
+  it("round-trips a recorded game through its text format", () => {
+    const replay = recordGame();
+    const text = encodeReplay(replay);
+    const decoded = decodeReplay(text);
+
+    expect(decoded.level).toEqual(replay.level);
+    expect(decoded.events).toMatchObject(replay.events);
+    expect(encodeReplay(decoded)).toBe(text);
+  });
+
+  it("plays a replay back into the boards the player saw", () => {
+    const frames = getReplayFrames(recordGame());
+
+    expect(frames.map(frame => frame.label)).toEqual([
+      'Level start',
+      expect.stringContaining('Placed'),
+      expect.stringContaining('Placed'),
+      'Undo',
+      expect.stringContaining('Placed')
+    ]);
+    expect(frames.map(frame => frame.state.sofas.length)).toEqual([0, 1, 2, 1, 2]);
+    expect(frames[4].state.sofas.map(sofa => sofa.type)).toEqual(['rectangular', 'single']);
+  });
+
+  it("rejects text that isn't a replay", () => {
+    expect(() => decodeReplay('friheten-level 1\n')).toThrow(ReplayFormatError);
+    expect(() => decodeReplay('friheten-replay 1\nlevel {}\n')).toThrow(/Line 2/);
+  });
+
+  it("names the line of a malformed event", () => {
+    expect(() => decodeReplay(`${header}+0 p single 1 1 45\n`)).toThrow(/Line 3: Rotation must be/);
+    expect(() => decodeReplay(`${header}+0 p single 1 1 0\n+5 z 1 1\n`)).toThrow(/Line 4: Unknown event "z"/);
+    expect(() => decodeReplay(`${header}0 x 1 1\n`)).toThrow(ReplayFormatError);
+    expect(() => decodeReplay(`${header}+0 x 1 -1\n`)).toThrow(ReplayFormatError);
+  });
+
+  it("refuses to play moves the engine rejects", () => {
+    for (const type of ['toString', '__proto__', 'sofa-bed']) {
+      const replay = decodeReplay(`${header}+0 p ${type} 1 1 0\n`);
+      expect(() => getReplayFrames(replay)).toThrow(ReplayFormatError);
+    }
+    const onWall = decodeReplay(`${header}+0 p single 0 0 0\n`);
+    expect(() => getReplayFrames(onWall)).toThrow(/Line 3: The move can't be played/);
+  });
+
+  it("refuses jumps past the timeline", () => {
+    const replay = decodeReplay(`${header}+0 p single 4 1 0\n+10 j 5\n`);
+    expect(() => getReplayFrames(replay)).toThrow(/Line 4: The timeline has no step 5/);
+  });
+});
@@ -0,0 +1,303 @@
+import { GameAction, GameState, Level, Rotation } from "@/types/game";
+import { createGameState } from "@/utils/gameEngine";
+import { GameHistory, applyAction, createHistory, jumpTo } from "@/utils/gameHistory";
+import { levelFileName, levelFromJson, levelToJson } from "@/utils/levelFormat";
+
+/**
+ * Replays
+ *
+ * A replay is a level plus every change to its undo timeline, timestamped
+ * from the level start: moves that add an entry (place, remove, rotate,
+ * move) and jumps through the timeline (undo, redo, clicking a history
+ * entry). Playing the events back through the engine rebuilds every board
+ * the player saw, in order.
+ *
+ * Replays are stored as text, one event per line, so they can be pasted
+ * into bug reports:
+ *
+ * ```
+ * friheten-replay 1
+ * level {"format":"friheten-level","version":2,"level":{...}}
+ * +0 p rectangular 1 2 90
+ * +1532 p chaise 3 1 0 f
+ * +800 x 3 1
+ * +210 r 1 2
+ * +450 m 1 2 4 4 180
+ * +300 j 2
+ * ```
+ *
+ * Each event line starts with the milliseconds since the previous event,
+ * then a code and its arguments: `p type x y rotation [f]` places a piece
+ * (f for flipped), `x x y` removes, `r x y` rotates, `m x y toX toY rotation`
+ * moves the sofa covering (x, y), and `j index` jumps to a timeline entry.
+ */
+
+export const REPLAY_FORMAT = 'friheten-replay';
+export const REPLAY_FORMAT_VERSION = 1;
+const VIEWER_STORAGE_KEY = 'friheten-replay';
+
+export class ReplayFormatError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(location ? `${location}: ${message}` : message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+export type ReplayAction =
+  | Extract<GameAction, { type: 'place' | 'remove' | 'rotate' | 'move' }>
+  | { type: 'jump'; index: number }; // Undo, redo or a jump to a timeline entry
+
+export interface ReplayEvent {
+  time: number; // Milliseconds since the level started
+  action: ReplayAction;
+}
+
+export interface Replay {
+  level: Level;
+  events: ReplayEvent[];
+}
+
+// One board of a replay, as shown after an event
+export interface ReplayFrame {
+  time: number;
+  label: string;
+  state: GameState;
+}
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+/**
+ * Start a replay from a timeline
+ *
+ * A timeline that already has moves (such as a restored saved game) is
+ * recorded as if those moves happened at `time`.
+ */
+export function startReplay(history: GameHistory, time = 0): Replay {
+  const events: ReplayEvent[] = history.entries.slice(1).flatMap(({ action }) =>
+    action && action.type !== 'reset' && action.type !== 'check' ? [{ time, action }] : []
+  );
+  if (history.index !== history.entries.length - 1) {
+    events.push({ time, action: { type: 'jump', index: history.index } });
+  }
+  return { level: history.entries[0].state.level, events };
+}
+
+/**
+ * Add the change between two versions of a timeline to a replay
+ *
+ * A timeline for another level start (after a reset or a restore) begins a
+ * new replay. Changes that leave the board alone, such as checks and
+ * rejected moves, are not recorded.
+ */
+export function recordHistoryChange(replay: Replay, previous: GameHistory, next: GameHistory, time: number): Replay {
+  if (next.entries[0] !== previous.entries[0]) {
+    return startReplay(next, time);
+  }
+
+  if (next.entries === previous.entries) {
+    return next.index === previous.index
+      ? replay
+      : { ...replay, events: [...replay.events, { time, action: { type: 'jump', index: next.index } }] };
+  }
+
+  // A move appends one entry after the one that was shown, dropping any redo entries
+  const action = next.entries[next.index].action;
+  if (
+    next.index === previous.index + 1 &&
+    next.entries[previous.index] === previous.entries[previous.index] &&
+    action && action.type !== 'reset' && action.type !== 'check'
+  ) {
+    return { ...replay, events: [...replay.events, { time, action }] };
+  }
+
+  // Anything else swapped the timeline out, so start over from it
+  return startReplay(next, time);
+}
+
+/**
+ * Play a replay back into the board shown after each event
+ *
+ * Only moves that changed the board are recorded, so a move the engine
+ * rejects (or a jump past the timeline) means the replay doesn't belong to
+ * its level or was edited.
+ *
+ * @returns The level start followed by one frame per event
+ * @throws ReplayFormatError naming the line of the first event that can't be played
+ */
+export function getReplayFrames(replay: Replay): ReplayFrame[] {
+  let history = createHistory(createGameState(replay.level));
+  const frames: ReplayFrame[] = [{ time: 0, label: 'Level start', state: history.present }];
+
+  replay.events.forEach(({ time, action }, index) => {
+    const location = `Line ${index + 3}`; // After the two header lines
+    if (action.type === 'jump') {
+      if (action.index >= history.entries.length) {
+        throw new ReplayFormatError(`The timeline has no step ${action.index}`, location);
+      }
+      const label = action.index === history.index - 1 ? 'Undo' : action.index === history.index + 1 ? 'Redo' : `Back to step ${action.index}`;
+      history = jumpTo(history, action.index);
+      frames.push({ time, label, state: history.present });
+    } else {
+      const next = applyAction(history, action);
+      if (next.entries === history.entries) {
+        throw new ReplayFormatError(`The move can't be played: ${next.present.message}`, location);
+      }
+      frames.push({ time, label: next.entries[next.index].label, state: next.present });
+      history = next;
+    }
+  });
+
+  return frames;
+}
+
+// Format an action as the code and arguments of an event line
+function formatAction(action: ReplayAction): string {
+  switch (action.type) {
+    case 'place':
+      return `p ${action.sofaType} ${action.position.x} ${action.position.y} ${action.rotation}${action.flipped ? ' f' : ''}`;
+    case 'remove':
+      return `x ${action.position.x} ${action.position.y}`;
+    case 'rotate':
+      return `r ${action.position.x} ${action.position.y}`;
+    case 'move':
+      return `m ${action.position.x} ${action.position.y} ${action.to.x} ${action.to.y} ${action.rotation}`;
+    case 'jump':
+      return `j ${action.index}`;
+  }
+}
+
+/**
+ * Serialize a replay to its text format
+ */
+export function encodeReplay(replay: Replay): string {
+  let previousTime = 0;
+  const lines = replay.events.map(({ time, action }) => {
+    const line = `+${Math.max(0, Math.round(time - previousTime))} ${formatAction(action)}`;
+    previousTime = time;
+    return line;
+  });
+
+  return [
+    `${REPLAY_FORMAT} ${REPLAY_FORMAT_VERSION}`,
+    `level ${JSON.stringify(JSON.parse(levelToJson(replay.level)))}`,
+    ...lines
+  ].join('\n') + '\n';
+}
+
+// Parse one event line, after its time
+function parseAction(code: string, args: string[], location: string): ReplayAction {
+  const numbers = (count: number, from = 0) => {
+    const values = args.slice(from, from + count);
+    if (values.length !== count || !values.every(value => /^\d+$/.test(value))) {
+      throw new ReplayFormatError(`Expected ${count} whole numbers after "${code}"`, location);
+    }
+    return values.map(Number);
+  };
+  const rotation = (value: number) => {
+    if (!ROTATIONS.includes(value as Rotation)) {
+      throw new ReplayFormatError(`Rotation must be 0, 90, 180 or 270, got ${value}`, location);
+    }
+    return value as Rotation;
+  };
+  const expectArgs = (count: number) => {
+    if (args.length !== count) {
+      throw new ReplayFormatError(`Expected ${count} values after "${code}", got ${args.length}`, location);
+    }
+  };
+
+  switch (code) {
+    case 'p': {
+      if (args.length !== 4 && !(args.length === 5 && args[4] === 'f')) {
+        throw new ReplayFormatError('Expected "p type x y rotation", optionally followed by "f"', location);
+      }
+      const [x, y, angle] = numbers(3, 1);
+      return { type: 'place', sofaType: args[0], position: { x, y }, rotation: rotation(angle), flipped: args[4] === 'f' };
+    }
+    case 'x': {
+      expectArgs(2);
+      const [x, y] = numbers(2);
+      return { type: 'remove', position: { x, y } };
+    }
+    case 'r': {
+      expectArgs(2);
+      const [x, y] = numbers(2);
+      return { type: 'rotate', position: { x, y } };
+    }
+    case 'm': {
+      expectArgs(5);
+      const [x, y, toX, toY, angle] = numbers(5);
+      return { type: 'move', position: { x, y }, to: { x: toX, y: toY }, rotation: rotation(angle) };
+    }
+    case 'j': {
+      expectArgs(1);
+      return { type: 'jump', index: numbers(1)[0] };
+    }
+    default:
+      throw new ReplayFormatError(`Unknown event "${code}"`, location);
+  }
+}
+
+/**
+ * Parse a replay from its text format
+ *
+ * @throws ReplayFormatError naming the invalid line
+ */
+export function decodeReplay(text: string): Replay {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+  if (lines[0]?.trim() !== `${REPLAY_FORMAT} ${REPLAY_FORMAT_VERSION}`) {
+    throw new ReplayFormatError(`Expected "${REPLAY_FORMAT} ${REPLAY_FORMAT_VERSION}"`, 'Line 1');
+  }
+
+  const levelLine = lines[1]?.match(/^level (.*)$/);
+  if (!levelLine) {
+    throw new ReplayFormatError('Expected "level" followed by the level JSON', 'Line 2');
+  }
+  let level: Level;
+  try {
+    level = levelFromJson(levelLine[1]);
+  } catch (error) {
+    throw new ReplayFormatError((error as Error).message, 'Line 2');
+  }
+
+  let time = 0;
+  const events = lines.slice(2).map((line, index) => {
+    const location = `Line ${index + 3}`;
+    const [delay, code, ...args] = line.trim().split(/\s+/);
+    if (!/^\+\d+$/.test(delay ?? '') || code === undefined) {
+      throw new ReplayFormatError('Expected "+milliseconds" followed by an event', location);
+    }
+    time += Number(delay.slice(1));
+    return { time, action: parseAction(code, args, location) };
+  });
+
+  return { level, events };
+}
+
+/**
+ * File name for downloading a replay
+ */
+export function replayFileName(level: Level): string {
+  return levelFileName(level, 'txt').replace(/\.txt$/, '.replay.txt');
+}
+
+/**
+ * Hand a replay to the replay viewer
+ */
+export function saveReplayForViewer(replay: Replay): void {
+  sessionStorage.setItem(VIEWER_STORAGE_KEY, encodeReplay(replay));
+}
+
+/**
+ * Read the replay handed over by the game page, if any
+ */
+export function loadReplayForViewer(): Replay | null {
+  const stored = sessionStorage.getItem(VIEWER_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return decodeReplay(stored);
+  } catch {
+    return null;
+  }
+}
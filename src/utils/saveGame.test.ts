@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { Level, LevelResult } from "@/types/game";
+import { createGameState } from "@/utils/gameEngine";
+import { applyAction, createHistory, undo } from "@/utils/gameHistory";
+import { levelFromAscii } from "@/utils/levelFormat";
+import {
+  SAVE_VERSION,
+  SavedBoard,
+  createEmptySave,
+  getBoardSlot,
+  migrateSave,
+  recordLevelResult,
+  restoreBoard,
+  saveBoard,
+  storeBoard
+} from "@/utils/saveGame";
+
+const room: Level = levelFromAscii(`
+inventory: single=3
+
+######
+#....#
+D....#
+#....#
+######
+`.trimStart());
+
+const placeSingle = (x: number, y: number) => ({ type: 'place', sofaType: 'single', position: { x, y }, rotation: 0 } as const);
+
+const savedBoard = (levelIndex: number | null, dailyDate: string | null): SavedBoard =>
+  saveBoard(createHistory(createGameState(room)), levelIndex, dailyDate, 0);
+
+const result = (total: number, stars: 1 | 2 | 3): LevelResult => ({
+  scoringVersion: 1,
+  cellsFilled: total,
+  par: total,
+  parIsEstimate: false,
+  stars,
+  piecesUsed: 1,
+  piecesAvailable: 1,
+  unusedCells: 0,
+  bonuses: [],
+  total
+});
+
+describe("migrateSave", () => {
+  it("upgrades a version 1 save, moving its board into the campaign level's slot", () => {
+    const board = savedBoard(2, null);
+    const { dailyDate, ...v1Board } = board;
+    expect(dailyDate).toBeNull();
+
+    const save = migrateSave({
+      version: 1,
+      campaign: { currentLevel: 2, unlockedLevels: 3, levels: {} },
+      board: v1Board
+    });
+    expect(save).toEqual({
+      ...createEmptySave(),
+      campaign: { currentLevel: 2, unlockedLevels: 3, levels: {} },
+      boards: { 'campaign-2': board },
+      lastBoard: 'campaign-2'
+    });
+  });
+
+  it("upgrades a version 2 save without a board", () => {
+    const save = migrateSave({ version: 2, campaign: createEmptySave().campaign, daily: {}, board: null });
+    expect(save).toMatchObject({ version: SAVE_VERSION, boards: {}, lastBoard: null });
+  });
+
+  it("ignores saves that are newer, corrupt or fail validation", () => {
+    expect(migrateSave({ ...createEmptySave(), version: SAVE_VERSION + 1 })).toBeNull();
+    expect(migrateSave('not a save')).toBeNull();
+    expect(migrateSave({ ...createEmptySave(), campaign: { currentLevel: -1, unlockedLevels: 1, levels: {} } })).toBeNull();
+  });
+});
+
+describe("storeBoard", () => {
+  it("keeps a board per campaign level and daily", () => {
+    expect(getBoardSlot(4, null)).toBe('campaign-4');
+    expect(getBoardSlot(null, '2026-10-19')).toBe('daily-2026-10-19');
+    expect(getBoardSlot(null, null)).toBe('free');
+
+    let boards = storeBoard({}, savedBoard(0, null));
+    boards = storeBoard(boards, savedBoard(null, '2026-10-19'));
+    expect(Object.keys(boards)).toEqual(['campaign-0', 'daily-2026-10-19']);
+  });
+
+  it("drops the least recently saved boards past the limit", () => {
+    let boards: Record<string, SavedBoard> = {};
+    for (let index = 0; index < 12; index++) {
+      boards = storeBoard(boards, savedBoard(index, null));
+    }
+    boards = storeBoard(boards, savedBoard(3, null));
+    expect(Object.keys(boards)).toEqual([
+      'campaign-2', 'campaign-4', 'campaign-5', 'campaign-6', 'campaign-7',
+      'campaign-8', 'campaign-9', 'campaign-10', 'campaign-11', 'campaign-3'
+    ]);
+  });
+});
+
+describe("restoreBoard", () => {
+  it("replays the saved moves, keeping the redo entries", () => {
+    let history = createHistory(createGameState(room));
+    history = applyAction(history, placeSingle(4, 1));
+    history = applyAction(history, placeSingle(4, 3));
+    history = undo(history);
+
+    const restored = restoreBoard(saveBoard(history, 0, null, 1000));
+    expect(restored?.entries).toHaveLength(3);
+    expect(restored?.index).toBe(1);
+    expect(restored?.present.sofas).toEqual(history.present.sofas);
+  });
+
+  it("gives up on moves the engine rejects", () => {
+    const board = savedBoard(0, null);
+    expect(restoreBoard({ ...board, moves: [placeSingle(0, 0)] })).toBeNull();
+    expect(restoreBoard({ ...board, level: '{' })).toBeNull();
+  });
+});
+
+describe("recordLevelResult", () => {
+  it("keeps the best score and stars and unlocks the next level", () => {
+    let campaign = recordLevelResult(createEmptySave().campaign, 0, result(12, 3));
+    campaign = recordLevelResult(campaign, 0, result(8, 1));
+    expect(campaign.unlockedLevels).toBe(2);
+    expect(campaign.levels[0]).toMatchObject({ bestScore: 12, stars: 3 });
+  });
+});
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { LevelResult, StarRating } from "@/types/game";
+import { createGameState } from "@/utils/gameEngine";
+import { GameHistory, applyAction, createHistory, jumpTo } from "@/utils/gameHistory";
+import { levelFromJson, levelToJson } from "@/utils/levelFormat";
+
+/**
+ * Saved games
+ *
+ * Campaign progress (unlocked levels, best score and stars per level), daily
+ * challenge results and the boards in progress are kept in localStorage under one key, so a reload
+ * can pick up where the player left off.
+ *
+ * Every campaign level and daily has its own board slot, and custom,
+ * imported and generated rooms share one, so starting one room doesn't
+ * overwrite the unfinished board of another. Only the MAX_SAVED_BOARDS most
+ * recently saved boards are kept.
+ *
+ * The stored data carries SAVE_VERSION. Data written by an older version is
+ * upgraded step by step through `migrations` before it is validated, and data
+ * that is newer, corrupt or fails validation is ignored rather than trusted.
+ *
+ * The board is stored as its level plus the moves of its undo timeline, and
+ * restored by replaying those moves through the engine, so a saved board can
+ * never hold a state the rules wouldn't allow.
+ */
+
+export const SAVE_VERSION = 3;
+
+const SAVE_STORAGE_KEY = 'friheten-save';
+const MAX_SAVED_BOARDS = 10;
+
+const positionSchema = z.object({
+  x: z.number().int(),
+  y: z.number().int()
+});
+
+const rotationSchema = z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]);
+
+// Moves that change the board; checks and resets are not saved
+const moveSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('place'),
+    sofaType: z.string(),
+    position: positionSchema,
+    rotation: rotationSchema,
+    flipped: z.boolean().optional()
+  }),
+  z.object({ type: z.literal('remove'), position: positionSchema }),
+  z.object({ type: z.literal('rotate'), position: positionSchema }),
+  z.object({ type: z.literal('move'), position: positionSchema, to: positionSchema, rotation: rotationSchema })
+]);
+
+const levelRecordSchema = z.object({
+  bestScore: z.number().int().min(0),
+  stars: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  scoringVersion: z.number().int().min(1), // Formula behind bestScore
+  completedAt: z.string() // ISO date of the first completion
+});
+
+const campaignSchema = z.object({
+  currentLevel: z.number().int().min(0), // Campaign level the player was last on
+  unlockedLevels: z.number().int().min(1), // Levels 0 to unlockedLevels - 1 can be played
+  levels: z.record(z.string(), levelRecordSchema) // Keyed by level index
+});
+
+const boardSchema = z.object({
+  level: z.string(), // The level in the JSON file format
+  levelIndex: z.number().int().min(0).nullable(), // Campaign level, or null for custom rooms and dailies
+  dailyDate: z.string().nullable(), // Date key of a daily challenge
+  moves: z.array(moveSchema), // Actions of every undo timeline entry after the level start
+  historyIndex: z.number().int().min(0), // Timeline entry shown, so redo survives a reload
+  elapsedMs: z.number().min(0)
+});
+
+const saveSchema = z.object({
+  version: z.literal(SAVE_VERSION),
+  campaign: campaignSchema,
+  daily: z.record(z.string(), levelRecordSchema), // Best daily results, keyed by date ("YYYY-MM-DD")
+  boards: z.record(z.string(), boardSchema), // Unfinished boards by slot, least recently saved first
+  lastBoard: z.string().nullable() // Slot of the board played last
+});
+
+export type LevelRecord = z.infer<typeof levelRecordSchema>;
+export type CampaignProgress = z.infer<typeof campaignSchema>;
+export type SavedBoard = z.infer<typeof boardSchema>;
+export type DailyResults = SaveData['daily'];
+export type SaveData = z.infer<typeof saveSchema>;
+
+// migrations[n] upgrades data written by version n + 1 to version n + 2.
+// Add one here whenever SAVE_VERSION goes up.
+const migrations: ((data: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // v2: daily challenge results, and boards say which daily they belong to
+  data => ({
+    ...data,
+    daily: {},
+    board: data.board ? { ...(data.board as Record<string, unknown>), dailyDate: null } : null
+  }),
+  // v3: a board slot per campaign level and daily, instead of one board for all of them
+  data => {
+    const board = data.board as SavedBoard | null;
+    const slot = board ? getBoardSlot(board.levelIndex, board.dailyDate) : null;
+    return { ...data, boards: board && slot ? { [slot]: board } : {}, lastBoard: slot };
+  }
+];
+
+export function createEmptySave(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    campaign: { currentLevel: 0, unlockedLevels: 1, levels: {} },
+    daily: {},
+    boards: {},
+    lastBoard: null
+  };
+}
+
+/**
+ * Bring stored data up to the current version and validate it
+ *
+ * @returns The save, or null if the data is corrupt or from a newer version
+ */
+export function migrateSave(data: unknown): SaveData | null {
+  if (typeof data !== 'object' || data === null) return null;
+
+  let current = data as Record<string, unknown>;
+  const version = current.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > SAVE_VERSION) {
+    return null;
+  }
+
+  for (let from = version; from < SAVE_VERSION; from++) {
+    current = { ...migrations[from - 1](current), version: from + 1 };
+  }
+
+  const result = saveSchema.safeParse(current);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Read the saved game, starting fresh when there is none or it can't be used
+ */
+export function loadSave(): SaveData {
+  const stored = localStorage.getItem(SAVE_STORAGE_KEY);
+  if (!stored) return createEmptySave();
+  try {
+    return migrateSave(JSON.parse(stored)) ?? createEmptySave();
+  } catch {
+    return createEmptySave();
+  }
+}
+
+export function writeSave(save: SaveData): void {
+  localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+}
+
+// Merge a result into the record of a level, keeping the best score and stars
+function mergeResult(previous: LevelRecord | undefined, result: LevelResult): LevelRecord {
+  return {
+    bestScore: previous ? Math.max(previous.bestScore, result.total) : result.total,
+    stars: previous ? Math.max(previous.stars, result.stars) as StarRating : result.stars,
+    scoringVersion: previous && previous.bestScore >= result.total ? previous.scoringVersion : result.scoringVersion,
+    completedAt: previous?.completedAt ?? new Date().toISOString()
+  };
+}
+
+/**
+ * Record a solved campaign level, keeping the best score and stars and unlocking the next level
+ */
+export function recordLevelResult(campaign: CampaignProgress, levelIndex: number, result: LevelResult): CampaignProgress {
+  return {
+    ...campaign,
+    unlockedLevels: Math.max(campaign.unlockedLevels, levelIndex + 2),
+    levels: { ...campaign.levels, [levelIndex]: mergeResult(campaign.levels[levelIndex], result) }
+  };
+}
+
+/**
+ * Record a solved daily challenge, keeping the best score and stars of the day
+ */
+export function recordDailyResult(daily: DailyResults, dateKey: string, result: LevelResult): DailyResults {
+  return { ...daily, [dateKey]: mergeResult(daily[dateKey], result) };
+}
+
+/**
+ * Save slot of a board: one per campaign level and daily, and one for every other room
+ */
+export function getBoardSlot(levelIndex: number | null, dailyDate: string | null): string {
+  return dailyDate !== null ? `daily-${dailyDate}` : levelIndex !== null ? `campaign-${levelIndex}` : 'free';
+}
+
+/**
+ * Put a board in its slot as the most recently saved one, dropping the oldest past MAX_SAVED_BOARDS
+ */
+export function storeBoard(boards: Record<string, SavedBoard>, board: SavedBoard): Record<string, SavedBoard> {
+  const slot = getBoardSlot(board.levelIndex, board.dailyDate);
+  const others = Object.entries(boards).filter(([key]) => key !== slot);
+  return Object.fromEntries([...others.slice(-(MAX_SAVED_BOARDS - 1)), [slot, board]]);
+}
+
+export function discardBoard(boards: Record<string, SavedBoard>, slot: string): Record<string, SavedBoard> {
+  return Object.fromEntries(Object.entries(boards).filter(([key]) => key !== slot));
+}
+
+/**
+ * Describe a game's undo timeline for saving
+ */
+export function saveBoard(
+  history: GameHistory,
+  levelIndex: number | null,
+  dailyDate: string | null,
+  elapsedMs: number
+): SavedBoard {
+  return {
+    level: levelToJson(history.entries[0].state.level),
+    levelIndex,
+    dailyDate,
+    // Only board moves become timeline entries
+    moves: history.entries.slice(1).flatMap(({ action }) =>
+      action && action.type !== 'reset' && action.type !== 'check' ? [action] : []
+    ),
+    historyIndex: history.index,
+    elapsedMs
+  };
+}
+
+/**
+ * Rebuild a saved game's undo timeline by replaying its moves
+ *
+ * @returns The timeline, or null if the level no longer loads or a move is rejected
+ */
+export function restoreBoard(board: SavedBoard): GameHistory | null {
+  let history: GameHistory;
+  try {
+    history = createHistory(createGameState(levelFromJson(board.level)));
+  } catch {
+    return null;
+  }
+
+  for (const move of board.moves) {
+    const next = applyAction(history, move);
+    if (next.entries.length !== history.entries.length + 1) return null;
+    history = next;
+  }
+
+  return jumpTo(history, board.historyIndex);
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { LeaderboardEntry, ScoreSubmission } from "@/utils/leaderboard";
+
+/**
+ * Leaderboard storage (server only)
+ *
+ * Entries live in a JSON file, data/scores.json by default or the path in
+ * the SCORES_FILE environment variable, so the leaderboard runs without any
+ * outside service. Each player keeps their best entry per level. Writes are
+ * queued within the process and replace the file in one rename, so a crash
+ * never leaves it half written.
+ */
+
+const STORE_VERSION = 1;
+
+const storedEntrySchema = z.object({
+  level: z.string(),
+  player: z.string(),
+  score: z.number().int().min(0),
+  stars: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  scoringVersion: z.number().int().min(1),
+  submittedAt: z.string(),
+  placements: z.array(z.unknown()) // The verified arrangement, kept for audits
+});
+
+const storeSchema = z.object({
+  version: z.literal(STORE_VERSION),
+  entries: z.array(storedEntrySchema)
+});
+
+type StoredEntry = z.infer<typeof storedEntrySchema>;
+
+const scoresFile = () => process.env.SCORES_FILE ?? path.join(process.cwd(), 'data', 'scores.json');
+
+// Serializes writes so concurrent submissions don't drop each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function readEntries(): Promise<StoredEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(scoresFile(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return storeSchema.parse(JSON.parse(text)).entries;
+}
+
+async function writeEntries(entries: StoredEntry[]): Promise<void> {
+  const file = scoresFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify({ version: STORE_VERSION, entries }, null, 2));
+  await fs.rename(temp, file);
+}
+
+// Higher scores first, earlier submissions break ties
+const compareEntries = (a: StoredEntry, b: StoredEntry) =>
+  b.score - a.score || a.submittedAt.localeCompare(b.submittedAt);
+
+const toLeaderboardEntry = ({ player, score, stars, scoringVersion, submittedAt }: StoredEntry): LeaderboardEntry =>
+  ({ player, score, stars, scoringVersion, submittedAt });
+
+/**
+ * Top entries of a level, best first
+ */
+export async function getTopScores(level: string, limit: number): Promise<LeaderboardEntry[]> {
+  const entries = await readEntries();
+  return entries
+    .filter(entry => entry.level === level)
+    .sort(compareEntries)
+    .slice(0, limit)
+    .map(toLeaderboardEntry);
+}
+
+/**
+ * Store a verified entry, unless the player already has a better one for the level
+ *
+ * @returns The player's best entry for the level and its rank, counting from 1
+ */
+export function addScore(
+  submission: ScoreSubmission,
+  result: Pick<StoredEntry, 'score' | 'stars' | 'scoringVersion'>
+): Promise<{ entry: LeaderboardEntry; rank: number }> {
+  const task = writeQueue.then(async () => {
+    const entries = await readEntries();
+    const candidate: StoredEntry = {
+      level: submission.level,
+      player: submission.player,
+      ...result,
+      submittedAt: new Date().toISOString(),
+      placements: submission.placements
+    };
+
+    const previous = entries.find(entry => entry.level === candidate.level && entry.player === candidate.player);
+    const best = previous && previous.score >= candidate.score ? previous : candidate;
+    if (best === candidate) {
+      await writeEntries([...entries.filter(entry => entry !== previous), candidate]);
+    }
+
+    const ranked = [...entries.filter(entry => entry !== previous), best]
+      .filter(entry => entry.level === best.level)
+      .sort(compareEntries);
+    return { entry: toLeaderboardEntry(best), rank: ranked.indexOf(best) + 1 };
+  });
+
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
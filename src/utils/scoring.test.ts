@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Level } from "@/types/game";
+import { createGameState, gameReducer } from "@/utils/gameEngine";
+import { levelFromAscii } from "@/utils/levelFormat";
+import { getStarRating, scoreSolution } from "@/utils/scoring";
+
+// Open 7x7 room with far fewer pieces than floor cells
+const bigRoom: Level = levelFromAscii(`
+inventory: single=1 rectangular=1
+
+#######
+#.....#
+#.....#
+D.....#
+#.....#
+#.....#
+#######
+`.trimStart());
+
+describe("getStarRating", () => {
+  it("rates a score against par", () => {
+    expect(getStarRating(16, 16)).toBe(3);
+    expect(getStarRating(14, 16)).toBe(2);
+    expect(getStarRating(10, 16)).toBe(1);
+  });
+});
+
+describe("scoreSolution", () => {
+  it("uses the level's par when it has one", () => {
+    const state = createGameState({ ...bigRoom, par: 4 });
+    expect(scoreSolution(state, 20).par).toBe(4);
+  });
+
+  it("caps an estimated par at what the inventory can cover", () => {
+    let state = createGameState(bigRoom);
+    state = gameReducer(state, { type: 'place', sofaType: 'single', position: { x: 5, y: 1 }, rotation: 0 });
+    state = gameReducer(state, { type: 'place', sofaType: 'rectangular', position: { x: 4, y: 5 }, rotation: 0 });
+
+    const result = scoreSolution(state, 20);
+    expect(result).toMatchObject({ cellsFilled: 3, par: 3, parIsEstimate: true, stars: 3 });
+  });
+});
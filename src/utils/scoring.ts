@@ -0,0 +1,99 @@
+import { GameState, Level, LevelResult, ScoreBonus, StarRating } from "@/types/game";
+import { getInventoryCells } from "@/utils/pieceCatalog";
+
+/**
+ * Star-rating scoring
+ *
+ * The base score is still the number of cells covered by sofas. A solved
+ * room earns one to three stars by comparing that score with the level's
+ * par, and bonus points for finishing without removing a sofa or within
+ * the time target. Results carry SCORING_VERSION so stored scores can be
+ * told apart once the formula changes.
+ */
+
+// v1: stars from the share of par, bonuses for no removals and the time target
+export const SCORING_VERSION = 1;
+
+// Share of par needed for two and three stars; any solved room gets one
+const TWO_STAR_SHARE = 0.85;
+const THREE_STAR_SHARE = 1;
+
+const NO_REMOVALS_POINTS = 5;
+const TIME_TARGET_POINTS = 5;
+
+// Time target: a fixed allowance plus some time for every piece in the inventory
+const TIME_TARGET_BASE_MS = 30_000;
+const TIME_TARGET_PER_PIECE_MS = 15_000;
+
+/**
+ * Count the pieces a level hands out
+ */
+export function countInventoryPieces(level: Level): number {
+  return Object.values(level.inventory).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Time a level should take to finish for the time bonus
+ */
+export function getTimeTargetMs(level: Level): number {
+  return TIME_TARGET_BASE_MS + countInventoryPieces(level) * TIME_TARGET_PER_PIECE_MS;
+}
+
+/**
+ * Rate a score against par
+ */
+export function getStarRating(score: number, par: number): StarRating {
+  if (par <= 0 || score >= par * THREE_STAR_SHARE) return 3;
+  if (score >= par * TWO_STAR_SHARE) return 2;
+  return 1;
+}
+
+export function formatStars(stars: StarRating): string {
+  return stars === 1 ? '1 star' : `${stars} stars`;
+}
+
+/**
+ * Score a solved room
+ *
+ * Levels without a par (hand-made ones that were never solved) are measured
+ * against the room's capacity instead: the cells already covered plus the
+ * empty cells that could still take a sofa, but no more than the inventory
+ * can cover.
+ *
+ * @param state The solved game state
+ * @param fillableEmptyCells Empty cells off the critical paths
+ * @param elapsedMs Time since the level started; without it the time bonus is not earned
+ */
+export function scoreSolution(state: GameState, fillableEmptyCells: number, elapsedMs?: number): LevelResult {
+  const cellsFilled = state.score;
+  const par = state.level.par ?? Math.min(cellsFilled + fillableEmptyCells, getInventoryCells(state.level.inventory));
+
+  const bonuses: ScoreBonus[] = [
+    {
+      id: 'no-removals',
+      label: 'No sofas removed',
+      points: NO_REMOVALS_POINTS,
+      earned: state.removals === 0
+    },
+    {
+      id: 'time-target',
+      label: `Finished within ${Math.round(getTimeTargetMs(state.level) / 1000)} seconds`,
+      points: TIME_TARGET_POINTS,
+      earned: elapsedMs !== undefined && elapsedMs <= getTimeTargetMs(state.level)
+    }
+  ];
+
+  return {
+    scoringVersion: SCORING_VERSION,
+    cellsFilled,
+    par,
+    parIsEstimate: state.level.par === undefined,
+    stars: getStarRating(cellsFilled, par),
+    piecesUsed: state.sofas.length,
+    piecesAvailable: countInventoryPieces(state.level),
+    unusedCells: fillableEmptyCells,
+    bonuses,
+    ...(elapsedMs !== undefined && { elapsedMs }),
+    total: cellsFilled + bonuses.reduce((total, bonus) => total + (bonus.earned ? bonus.points : 0), 0)
+  };
+}
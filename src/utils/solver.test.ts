@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getCampaignLevel } from "@/utils/campaign";
+import { hasErrors } from "@/utils/gameEngine";
+import { applyPlacements, solveLevel, verifyLevel } from "@/utils/solver";
+
+describe("solveLevel", () => {
+  it("solves the first campaign level to its par with a valid arrangement", () => {
+    const level = getCampaignLevel(0);
+    const result = solveLevel(level);
+
+    expect(result.feasible).toBe(true);
+    expect(result.optimal).toBe(true);
+    expect(result.score).toBe(10);
+
+    const state = applyPlacements(level, result.placements);
+    expect(state).not.toBeNull();
+    expect(hasErrors(state!.diagnostics)).toBe(false);
+    expect(state!.score).toBe(result.score);
+  });
+
+  it("keeps fixed sofas and reports arrangements it can't extend", () => {
+    const level = getCampaignLevel(0);
+    // A sofa in front of the door leaves no way in
+    const entrance = { x: level.doorPosition.x + 1, y: level.doorPosition.y };
+    const fixed = [{ id: 1, type: 'single', position: entrance, rotation: 0 as const, flipped: false }];
+
+    expect(solveLevel(level, { fixed }).feasible).toBe(false);
+  });
+});
+
+describe("applyPlacements", () => {
+  it("rejects placements the engine refuses", () => {
+    const level = getCampaignLevel(0);
+    const wall = level.walls[0];
+
+    expect(applyPlacements(level, [{ id: 1, type: 'single', position: wall, rotation: 0, flipped: false }])).toBeNull();
+  });
+});
+
+describe("verifyLevel", () => {
+  it("finds the campaign pars", () => {
+    expect(verifyLevel(getCampaignLevel(0))).toMatchObject({ winnable: true, par: 10 });
+    expect(verifyLevel(getCampaignLevel(1))).toMatchObject({ winnable: true, par: 16 });
+  });
+});
@@ -0,0 +1,381 @@
+import { GameState, Level, Position, Rotation, SofaInventory, SofaPiece, SofaType } from "@/types/game";
+import { createGameState, createGrid, gameReducer, getSofaCells, hasErrors } from "@/utils/gameEngine";
+import { PIECE_CATALOG, getInventoryCells, getInventoryKey } from "@/utils/pieceCatalog";
+
+/**
+ * Optimal packing solver
+ *
+ * Finds a placement of sofas that covers as many cells as possible while
+ * keeping every sofa reachable from the door, the door unblocked and the
+ * inventory respected. The search is a depth-first branch and bound over
+ * floor cells in row-major order: at the first undecided cell we either
+ * anchor a piece there or leave the cell empty. Without a time limit the
+ * search is exhaustive and the result is optimal; with one it returns the
+ * best placement found so far (anytime mode).
+ *
+ * Pure TypeScript with no UI dependencies, so it runs in Node as well.
+ */
+
+export interface SolverOptions {
+  timeLimitMs?: number; // Stop after this long and return the best placement so far
+  maxNodes?: number; // Stop after exploring this many search nodes
+  fixed?: SofaPiece[]; // Sofas already on the board that must stay where they are
+  onProgress?: (progress: SolverProgress) => void; // Called every PROGRESS_INTERVAL_MS while searching
+  shouldStop?: () => boolean; // Polled during the search; returning true stops it like a time limit
+}
+
+export interface SolverProgress {
+  nodes: number;
+  bestScore: number; // Best score found so far, 0 before the first arrangement
+  elapsedMs: number;
+}
+
+export interface SolverResult {
+  placements: SofaPiece[]; // Includes the fixed sofas, which come first
+  score: number; // Number of cells covered
+  feasible: boolean; // False when no valid arrangement keeps the fixed sofas
+  optimal: boolean; // True when the search space was exhausted
+  nodes: number;
+  elapsedMs: number;
+}
+
+// A distinct footprint of a sofa type
+interface Orientation {
+  type: SofaType;
+  rotation: Rotation;
+  flipped: boolean;
+  inventoryKey: string; // Inventory count this footprint draws from
+
+  // Offsets from the first cell of the footprint in row-major order
+  offsets: Position[];
+  // Offset from that first cell back to the sofa's anchor position
+  anchorOffset: Position;
+}
+
+interface PlacedPiece {
+  orientation: Orientation;
+  cells: number[];
+  fixed?: SofaPiece;
+}
+
+// How often a long search reports progress
+const PROGRESS_INTERVAL_MS = 100;
+
+// Cell states during the search
+const BLOCKED = 0; // Wall or door
+const UNDECIDED = 1;
+const EMPTY = 2; // Decided to stay empty
+const SOFA = 3;
+
+// Directions: right, left, down, up (same order as the engine)
+const directions = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 }
+];
+
+/**
+ * List the distinct footprints of every catalog piece, largest pieces first
+ */
+function getOrientations(): Orientation[] {
+  const orientations: Orientation[] = [];
+
+  for (const { id: type, rotations, chiral } of PIECE_CATALOG) {
+    const seen = new Set<string>();
+    const variants = (chiral ? [false, true] : [false]).flatMap(flipped =>
+      rotations.map(rotation => ({ rotation, flipped }))
+    );
+
+    for (const { rotation, flipped } of variants) {
+      const cells = getSofaCells(type, { x: 0, y: 0 }, rotation, flipped);
+      const first = cells.reduce((min, cell) =>
+        cell.y < min.y || (cell.y === min.y && cell.x < min.x) ? cell : min
+      );
+      const offsets = cells
+        .map(cell => ({ x: cell.x - first.x, y: cell.y - first.y }))
+        .sort((a, b) => a.y - b.y || a.x - b.x);
+
+      const key = offsets.map(offset => `${offset.x},${offset.y}`).join(';');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      orientations.push({
+        type,
+        rotation,
+        flipped,
+        inventoryKey: getInventoryKey(type, flipped),
+        offsets,
+        anchorOffset: { x: -first.x, y: -first.y }
+      });
+    }
+  }
+
+  return orientations.sort((a, b) => b.offsets.length - a.offsets.length);
+}
+
+const ORIENTATIONS = getOrientations();
+
+/**
+ * Find the best placement of the level's inventory
+ *
+ * @param level The level to solve
+ * @param options Optional time or node limits for anytime mode
+ * @returns The best placement found and whether it is proven optimal
+ */
+export function solveLevel(level: Level, options: SolverOptions = {}): SolverResult {
+  const startTime = Date.now();
+  const { width, height, doorPosition } = level;
+  const deadline = options.timeLimitMs !== undefined ? startTime + options.timeLimitMs : Infinity;
+  const maxNodes = options.maxNodes ?? Infinity;
+  let nextProgressTime = startTime + PROGRESS_INTERVAL_MS;
+
+  // Flatten the level into integer cell indices
+  const status = new Int8Array(width * height);
+  createGrid(level).forEach((row, y) => {
+    row.forEach((cell, x) => {
+      status[y * width + x] = cell === 'empty' ? UNDECIDED : BLOCKED;
+    });
+  });
+
+  const neighbors: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbors.push(directions
+        .map(dir => ({ x: x + dir.x, y: y + dir.y }))
+        .filter(pos => pos.x >= 0 && pos.x < width && pos.y >= 0 && pos.y < height)
+        .map(pos => pos.y * width + pos.x));
+    }
+  }
+
+  const doorNeighbors = directions
+    .map(dir => ({ x: doorPosition.x + dir.x, y: doorPosition.y + dir.y }))
+    .filter(pos => pos.x >= 0 && pos.x < width && pos.y >= 0 && pos.y < height)
+    .map(pos => pos.y * width + pos.x);
+
+  const inventory: SofaInventory = { ...level.inventory };
+
+  const placed: PlacedPiece[] = [];
+  let score = 0;
+
+  // Pre-place the fixed sofas
+  for (const sofa of options.fixed ?? []) {
+    const cells = getSofaCells(sofa.type, sofa.position, sofa.rotation, sofa.flipped).map(cell => cell.y * width + cell.x);
+    const inventoryKey = getInventoryKey(sofa.type, sofa.flipped);
+    cells.forEach(index => { status[index] = SOFA; });
+    placed.push({
+      orientation: { type: sofa.type, rotation: sofa.rotation, flipped: sofa.flipped, inventoryKey, offsets: [], anchorOffset: { x: 0, y: 0 } },
+      cells,
+      fixed: sofa
+    });
+    inventory[inventoryKey] = Math.max(0, (inventory[inventoryKey] ?? 0) - 1);
+    score += cells.length;
+  }
+
+  let remainingInventoryCells = getInventoryCells(inventory);
+  let undecidedCells = status.reduce((count, cell) => count + (cell === UNDECIDED ? 1 : 0), 0);
+
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+
+  let bestScore = -1;
+  let bestPlacements: PlacedPiece[] = [];
+  let nodes = 0;
+  let aborted = false;
+
+  // Flood fill from the given start cells through cells that may stay empty
+  const floodFrom = (starts: number[], passable: (cell: number) => boolean) => {
+    visited.fill(0);
+    let head = 0;
+    let tail = 0;
+    for (const start of starts) {
+      if (passable(start) && !visited[start]) {
+        visited[start] = 1;
+        queue[tail++] = start;
+      }
+    }
+    while (head < tail) {
+      const current = queue[head++];
+      for (const next of neighbors[current]) {
+        if (!visited[next] && passable(next)) {
+          visited[next] = 1;
+          queue[tail++] = next;
+        }
+      }
+    }
+    return tail;
+  };
+
+  const touchesVisited = (piece: PlacedPiece) =>
+    piece.cells.some(cell => neighbors[cell].some(next => visited[next]));
+
+  // Could every placed sofa still become reachable once the undecided cells are resolved?
+  const isStillFeasible = (): boolean => {
+    const reached = floodFrom(doorNeighbors, cell => status[cell] === UNDECIDED || status[cell] === EMPTY);
+    if (reached === 0) return false; // Door is blocked
+    return placed.every(touchesVisited);
+  };
+
+  // Exact check on a finished arrangement, matching the engine's rules
+  const isValidArrangement = (): boolean => {
+    const start = doorNeighbors.find(cell => status[cell] === EMPTY);
+    if (start === undefined) return false; // Door is blocked
+    floodFrom([start], cell => status[cell] === EMPTY);
+    return placed.every(touchesVisited);
+  };
+
+  const search = (scanFrom: number) => {
+    if (aborted) return;
+    nodes++;
+    if ((nodes & 1023) === 0) {
+      const now = Date.now();
+      if (now > deadline || options.shouldStop?.()) aborted = true;
+      if (options.onProgress && now >= nextProgressTime) {
+        nextProgressTime = now + PROGRESS_INTERVAL_MS;
+        options.onProgress({ nodes, bestScore: Math.max(bestScore, 0), elapsedMs: now - startTime });
+      }
+    }
+    if (nodes >= maxNodes) aborted = true;
+    if (aborted) return;
+
+    // Bound: even filling every undecided cell cannot beat the best score
+    if (score + Math.min(undecidedCells, remainingInventoryCells) <= bestScore) return;
+
+    let cell = scanFrom;
+    while (cell < status.length && status[cell] !== UNDECIDED) cell++;
+
+    if (cell === status.length) {
+      if (score > bestScore && isValidArrangement()) {
+        bestScore = score;
+        bestPlacements = [...placed];
+      }
+      return;
+    }
+
+    const x = cell % width;
+    const y = Math.floor(cell / width);
+
+    // Try anchoring each piece so that its first cell lands here
+    for (const orientation of ORIENTATIONS) {
+      if (!(inventory[orientation.inventoryKey] > 0)) continue;
+
+      const cells: number[] = [];
+      for (const offset of orientation.offsets) {
+        const cx = x + offset.x;
+        const cy = y + offset.y;
+        if (cx < 0 || cx >= width || cy < 0 || cy >= height) break;
+        const index = cy * width + cx;
+        if (status[index] !== UNDECIDED) break;
+        cells.push(index);
+      }
+      if (cells.length !== orientation.offsets.length) continue;
+
+      const piece: PlacedPiece = { orientation, cells };
+      cells.forEach(index => { status[index] = SOFA; });
+      placed.push(piece);
+      inventory[orientation.inventoryKey]--;
+      score += cells.length;
+      undecidedCells -= cells.length;
+      remainingInventoryCells -= cells.length;
+
+      if (isStillFeasible()) {
+        search(cell + 1);
+      }
+
+      remainingInventoryCells += cells.length;
+      undecidedCells += cells.length;
+      score -= cells.length;
+      inventory[orientation.inventoryKey]++;
+      placed.pop();
+      cells.forEach(index => { status[index] = UNDECIDED; });
+
+      if (aborted) return;
+    }
+
+    // Leave this cell empty
+    status[cell] = EMPTY;
+    undecidedCells--;
+    search(cell + 1);
+    undecidedCells++;
+    status[cell] = UNDECIDED;
+  };
+
+  if (isStillFeasible()) {
+    search(0);
+  }
+
+  let nextId = Math.max(0, ...(options.fixed ?? []).map(sofa => sofa.id)) + 1;
+  const placements: SofaPiece[] = bestPlacements.map(piece => {
+    if (piece.fixed) return piece.fixed;
+
+    const first = piece.cells[0];
+    return {
+      type: piece.orientation.type,
+      rotation: piece.orientation.rotation,
+      flipped: piece.orientation.flipped,
+      position: {
+        x: (first % width) + piece.orientation.anchorOffset.x,
+        y: Math.floor(first / width) + piece.orientation.anchorOffset.y
+      },
+      id: nextId++
+    };
+  });
+
+  return {
+    placements,
+    score: Math.max(bestScore, 0),
+    feasible: bestScore >= 0,
+    optimal: !aborted,
+    nodes,
+    elapsedMs: Date.now() - startTime
+  };
+}
+
+/**
+ * Play a list of placements through the engine
+ *
+ * @returns The resulting game state, or null if any placement is rejected
+ *          or the final arrangement breaks a constraint
+ */
+export function applyPlacements(level: Level, placements: SofaPiece[]): GameState | null {
+  let state = createGameState(level);
+
+  for (const placement of placements) {
+    const next = gameReducer(state, {
+      type: 'place',
+      sofaType: placement.type,
+      position: placement.position,
+      rotation: placement.rotation,
+      flipped: placement.flipped
+    });
+    if (next.sofas === state.sofas) return null;
+    state = next;
+  }
+
+  return hasErrors(state.diagnostics) ? null : state;
+}
+
+export interface LevelVerification {
+  winnable: boolean; // The best placement found passes the engine's win check
+  par: number; // Best achievable score found by the solver
+  optimal: boolean; // False if the search was cut short, making par a lower bound
+}
+
+/**
+ * Check that a level can be completed and find its par
+ *
+ * A level counts as winnable when the solver's best placement passes the
+ * same 'check' action players use. Levels that might only be winnable by a
+ * lower-scoring arrangement are conservatively reported as not winnable.
+ */
+export function verifyLevel(level: Level, options: SolverOptions = {}): LevelVerification {
+  const result = solveLevel(level, options);
+  const state = applyPlacements(level, result.placements);
+  const checked = state ? gameReducer(state, { type: 'check' }) : null;
+
+  return {
+    winnable: checked?.lastCheck?.solved ?? false,
+    par: result.score,
+    optimal: result.optimal
+  };
+}
@@ -0,0 +1,7 @@
+import { AnalysisRequest, createAnalysisHandler } from "@/utils/analysis";
+
+// Web Worker entry for the analysis service; see utils/analysisService.ts
+const worker = self as unknown as Worker;
+const handle = createAnalysisHandler(response => worker.postMessage(response));
+
+worker.onmessage = (event: MessageEvent<AnalysisRequest>) => handle(event.data);